@@ -1,14 +1,38 @@
 import React, { useState, useEffect, useCallback, useMemo, useRef, forwardRef } from 'react';
-import { Trip, Expense, User, Participant, ExpenseCategory, SettledPayment, StoredUser, MediaItem, InfoItem, InfoItemType, ChatMessage, INFO_ITEM_TYPES, ItineraryItem, ItineraryItemCategory, ITINERARY_ITEM_CATEGORIES, MarkedLocation } from './types';
-import { CATEGORIES, CATEGORY_DETAILS, TEST_USER_USERNAME, TEST_USER_PASSWORD, APP_NAME, CHART_COLORS, INFO_ITEM_TYPE_DETAILS, MAIN_VIEW_ICONS, GASTOS_SUBVIEW_ICONS } from './constants';
+import { Trip, TripBudget, TripStatus, TripTemplate, TripCategory, CategoryIcon, PaymentAccount, PaymentAccountType, Expense, ExpenseKind, User, Participant, ExpenseCategory, ExpenseSplit, ExpenseSplitMode, SettlementTransfer, TransferMethod, StoredUser, MediaItem, InfoItem, InfoItemType, ChatMessage, INFO_ITEM_TYPES, ItineraryItem, ItineraryItemCategory, ITINERARY_ITEM_CATEGORIES, MarkedLocation, KittyContribution } from './types';
+import { CATEGORY_ICONS, CATEGORY_COLORS, TEST_USER_USERNAME, TEST_USER_PASSWORD, APP_NAME, INFO_ITEM_TYPE_DETAILS, MAIN_VIEW_ICONS, GASTOS_SUBVIEW_ICONS, SPLIT_MODE_LABELS, CURRENCIES, TRANSFER_METHOD_LABELS, PAYMENT_ACCOUNT_TYPE_LABELS, EXPENSE_KIND_LABELS, KITTY_PAYER, DEFAULT_KITTY_NAME, TRIP_STATUS_LABELS } from './constants';
 import useLocalStorage from './hooks/useLocalStorage';
 import useCurrentTime from './hooks/useCurrentTime';
-import CategoryBarChart from './CategoryBarChart';
+import TripChart, { renderChartImage } from './TripChart';
+import { getExpenseShares, getItemizedTotal, getItemsSubtotal, getSharesAsSplit, getSharesByParticipant, isDefaultSplit, validateExpenseSplit } from './utils/expenseSplits';
+import { describeExpenseChanges } from './utils/expenseHistory';
+import { EMPTY_EXPENSE_FILTERS, EXPENSE_GROUP_LABELS, EXPENSE_SORT_LABELS, ExpenseFilters, ExpenseGroupKey, ExpenseSortKey, countActiveFilters, filterExpenses, groupExpenses, sortExpenses } from './utils/expenseFilters';
+import { parseCsv } from './utils/csv';
+import { buildXlsx } from './utils/xlsx';
+import { TripExportData, buildTripExportCsv, buildTripExportJson, buildTripExportTables } from './utils/tripExport';
+import { StatementColumnMapping, guessStatementMapping, parseStatementRows, reconcileStatement } from './utils/statementImport';
+import { getBudgetProgress, getBudgetWarnings, getDaysOverBudget, hasAnyBudget } from './utils/budgets';
+import { MAX_EXPENSE_RANGE_DAYS, addDays, getDaysBetween, getDaysInRange, getExpenseDayCount, getPortionsByDay, moveExpenseToDate } from './utils/proration';
+import { getDailyAverage, getHeatLevel, getTotalsByCategory, getTotalsByParticipant, getWeekDays } from './utils/calendar';
+import { formatCurrency, getTripBaseCurrency, getExpenseCurrency, getMissingRateCurrencies, toBaseCurrencyExpense } from './utils/currency';
+import { computeSettlement } from './utils/settlement';
+import { getCategory, getCategoryName, getTripCategories, validateCategoryName } from './utils/categories';
+import { ReceiptSuggestion, parseReceiptText, recognizeReceiptText } from './utils/receiptOcr';
+import { getTotalsByTag, getUsedTags, normalizeTag } from './utils/tags';
+import { buildTripCharts } from './utils/tripCharts';
+import { getRefundedAmount, getSignedAmount, isCreditEntry, validateCreditEntry } from './utils/expenseKinds';
+import { PdfDocument, buildTripReportPdf } from './utils/tripReport';
+import { describePresence, getAbsenceSummaries, getParticipantsPresentDuring, validatePresence } from './utils/presence';
+import { createParticipant, describeParticipantUsage, getParticipantName, getParticipantUsage, isParticipantInUse, mergeParticipantInExpense, mergeParticipantInTransfer, mergeParticipantInTrip, removeParticipantFromTrip, renameParticipant, validateParticipantName, validateTripName } from './utils/participants';
+import { getKittyName, getKittySummary, getPaidByParticipant, getPayerName, isPaidByKitty, validateKittyContribution } from './utils/kitty';
+import { getPaymentAccountName, getPaymentAccountTotals, getTripPaymentAccounts, validatePaymentAccountName } from './utils/paymentAccounts';
+import { TripFromTemplate, createTripFromTemplate, createTripTemplate, validateTemplateName } from './utils/tripTemplates';
+import { describeTripDates, getTripStatus, getTripTotal, groupTripsByStatus, isTripArchived, parseDestinations, validateTripDates } from './utils/trips';
 
 declare global {
   interface Window {
     jspdf?: {
-      jsPDF: new (options?: any) => any;
+      jsPDF: new (options?: any) => PdfDocument;
     };
     Chart?: any;
     MediaRecorder: typeof MediaRecorder; // Add MediaRecorder
@@ -27,6 +51,13 @@ const copyToClipboard = (text: string) => {
     .catch(err => console.error('Error al copiar el código: ', err));
 };
 
+const downloadFile = (content: Blob | string, fileName: string, mimeType: string) => {
+  const blob = typeof content === 'string' ? new Blob([content], { type: mimeType }) : content;
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a'); a.href = url; a.download = fileName; a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
 const formatDate = (dateString: string, options?: Intl.DateTimeFormatOptions) => {
   const defaultOptions: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'long', day: 'numeric' };
   // Ensure the date string is treated as local time by appending T00:00:00 if it's just a date
@@ -138,16 +169,19 @@ const App: React.FC = () => {
   const [storedUsers, setStoredUsers] = useLocalStorage<StoredUser[]>('travelfin-stored-users', []);
   const [trips, setTrips] = useLocalStorage<Trip[]>('travelfin-trips', []);
   const [expenses, setExpenses] = useLocalStorage<Expense[]>('travelfin-expenses', []);
+  const [settlementTransfers, setSettlementTransfers] = useLocalStorage<SettlementTransfer[]>('travelfin-settlement-transfers', []);
   const [mediaItems, setMediaItems] = useLocalStorage<MediaItem[]>('travelfin-media-items', []);
   const [infoItems, setInfoItems] = useLocalStorage<InfoItem[]>('travelfin-info-items', []);
   const [chatMessages, setChatMessages] = useLocalStorage<ChatMessage[]>('travelfin-chat-messages', []);
   const [itineraryItems, setItineraryItems] = useLocalStorage<ItineraryItem[]>('travelfin-itinerary-items', []);
   const [markedMapLocations, setMarkedMapLocations] = useLocalStorage<MarkedLocation[]>('travelfin-marked-locations', []);
+  const [tripTemplates, setTripTemplates] = useLocalStorage<TripTemplate[]>('travelfin-trip-templates', []);
   const [activeTripId, setActiveTripId] = useLocalStorage<string | null>('travelfin-activeTripId', null);
   
   const [view, setView] = useState<AppView>('auth');
   const [joinTripError, setJoinTripError] = useState<string | null>(null);
   const [showTripCodeModal, setShowTripCodeModal] = useState<string | null>(null); // Stores code of newly created trip
+  const [copyingTrip, setCopyingTrip] = useState<{ trip: Trip; mode: TripCopyMode } | null>(null);
   const [authFormInitialValues, setAuthFormInitialValues] = useState<{username?: string, password?: string} | null>(null);
 
 
@@ -181,6 +215,11 @@ const App: React.FC = () => {
     return expenses.filter(exp => exp.tripId === activeTripId).sort((a,b) => new Date(b.date).getTime() - new Date(a.date).getTime() || b.id.localeCompare(a.id));
   }, [activeTripId, expenses]);
 
+  const activeTripSettlementTransfers = useMemo(() => {
+    if (!activeTripId) return [];
+    return settlementTransfers.filter(tr => tr.tripId === activeTripId).sort((a,b) => new Date(b.date).getTime() - new Date(a.date).getTime() || b.createdAt.localeCompare(a.createdAt));
+  }, [activeTripId, settlementTransfers]);
+
   const activeTripMediaItems = useMemo(() => {
     if (!activeTripId) return [];
     return mediaItems.filter(item => item.tripId === activeTripId).sort((a,b) => new Date(b.uploadedAt).getTime() - new Date(a.uploadedAt).getTime());
@@ -234,22 +273,95 @@ const App: React.FC = () => {
     setAuthFormInitialValues(null);
   };
 
-  const handleCreateTrip = (name: string, participantNames: string[]) => {
+  const addTripFromTemplate = ({ trip, infoItems: newInfoItems, itineraryItems: newItineraryItems }: TripFromTemplate) => {
+    setTrips(prev => [...prev, trip]);
+    setInfoItems(prev => [...prev, ...newInfoItems]);
+    setItineraryItems(prev => [...prev, ...newItineraryItems]);
+    setActiveTripId(trip.id);
+    setShowTripCodeModal(trip.tripCode);
+  };
+
+  const handleCreateTrip = (name: string, participantNames: string[], details: TripCreateDetails, templateId?: string) => {
     if (!name.trim() || participantNames.length === 0 || participantNames.some(p => !p.trim())) {
       alert("El nombre del viaje y los nombres de los participantes no pueden estar vacíos.");
       return;
     }
+    const template = templateId ? tripTemplates.find(t => t.id === templateId) : undefined;
+    if (template && currentUser) {
+      addTripFromTemplate(createTripFromTemplate(template, { ...details, name, participantNames, tripCode: generateTripCode(), username: currentUser.username }));
+      return;
+    }
     const newTrip: Trip = {
       id: `trip-${Date.now()}`,
       name,
-      participants: participantNames.map(pName => ({ name: pName.trim() })),
+      participants: participantNames.map(createParticipant),
       tripCode: generateTripCode(),
+      ...details,
     };
     setTrips(prev => [...prev, newTrip]);
     setActiveTripId(newTrip.id);
     setShowTripCodeModal(newTrip.tripCode); // Show modal with code
   };
 
+  // A duplicate is a template of the trip that is used straight away instead of being saved
+  const handleDuplicateTrip = (trip: Trip, name: string, startDate: string) => {
+    if (!currentUser) return;
+    const template = createTripTemplate(trip, infoItems.filter(item => item.tripId === trip.id), itineraryItems.filter(item => item.tripId === trip.id), name);
+    addTripFromTemplate(createTripFromTemplate(template, {
+      name, participantNames: trip.participants.map(p => p.name), startDate: startDate || undefined, destinations: trip.destinations,
+      tripCode: generateTripCode(), username: currentUser.username,
+    }));
+    setCopyingTrip(null);
+  };
+
+  const handleSaveTripTemplate = (trip: Trip, name: string) => {
+    const template = createTripTemplate(trip, infoItems.filter(item => item.tripId === trip.id), itineraryItems.filter(item => item.tripId === trip.id), name);
+    setTripTemplates(prev => [...prev, template]);
+    setCopyingTrip(null);
+    alert(`Plantilla "${template.name}" guardada. Puedes usarla al crear un viaje.`);
+  };
+
+  const handleDeleteTripTemplate = (templateId: string) => {
+    if (!window.confirm("¿Eliminar esta plantilla? Los viajes creados a partir de ella no cambian.")) return;
+    setTripTemplates(prev => prev.filter(t => t.id !== templateId));
+  };
+
+  const handleUpdateTrip = (updatedTrip: Trip) => {
+    setTrips(prev => prev.map(t => t.id === updatedTrip.id ? updatedTrip : t));
+  };
+
+  // The one change allowed on an archived trip, so it can be reopened
+  const handleUpdateTripStatus = (status: TripStatus | undefined) => {
+    if (!activeTripId) return;
+    setTrips(prev => prev.map(t => t.id === activeTripId ? { ...t, status } : t));
+  };
+
+  // Archived trips are read-only: views hide their editing controls on isReadOnly, and any change that still
+  // gets through is refused here.
+  const guardArchived = <Args extends unknown[]>(handler: (...args: Args) => void) => (...args: Args) => {
+    if (activeTrip && isTripArchived(activeTrip)) { alert("Este viaje está archivado. Vuelve a abrirlo desde Ajustes para hacer cambios."); return; }
+    handler(...args);
+  };
+
+  // Hands everything of participant `from` over to participant `to` and drops `from`, which is how a removed
+  // participant's data is reassigned. Renaming is just a label change on the trip, see renameParticipant.
+  const handleMergeParticipant = (from: string, to: string) => {
+    if (!activeTrip || !currentUser || from === to) return;
+    setTrips(prev => prev.map(t => t.id === activeTrip.id ? mergeParticipantInTrip(t, from, to) : t));
+    // History is described with the trip as it was, while `from` still has a name
+    setExpenses(prev => prev.map(exp => exp.tripId === activeTrip.id ? withExpenseHistory(exp, mergeParticipantInExpense(exp, activeTrip.participants, from, to), activeTrip, currentUser.username) : exp));
+    setSettlementTransfers(prev => prev.flatMap(tr => {
+      if (tr.tripId !== activeTrip.id) return [tr];
+      const merged = mergeParticipantInTransfer(tr, from, to);
+      return merged ? [merged] : [];
+    }));
+  };
+
+  const handleRemoveParticipant = (participantId: string) => {
+    if (!activeTripId) return;
+    setTrips(prev => prev.map(t => t.id === activeTripId ? removeParticipantFromTrip(t, participantId) : t));
+  };
+
   const handleJoinTrip = (tripCode: string) => {
     setJoinTripError(null);
     const tripToJoin = trips.find(t => t.tripCode === tripCode.trim());
@@ -262,9 +374,10 @@ const App: React.FC = () => {
   };
   
   const handleDeleteTrip = (tripId: string) => {
-    if (!window.confirm("¿Estás seguro de que quieres eliminar este viaje y todos sus datos asociados (gastos, recuerdos, info, itinerario, chat, lugares marcados)? Esta acción no se puede deshacer.")) return;
+    if (!window.confirm("¿Estás seguro de que quieres eliminar este viaje y todos sus datos asociados (gastos, pagos entre participantes, recuerdos, info, itinerario, chat, lugares marcados)? Esta acción no se puede deshacer.")) return;
     setTrips(prev => prev.filter(t => t.id !== tripId));
     setExpenses(prev => prev.filter(e => e.tripId !== tripId));
+    setSettlementTransfers(prev => prev.filter(tr => tr.tripId !== tripId));
     setMediaItems(prev => prev.filter(m => m.tripId !== tripId));
     setInfoItems(prev => prev.filter(i => i.tripId !== tripId));
     setChatMessages(prev => prev.filter(c => c.tripId !== tripId));
@@ -277,16 +390,46 @@ const App: React.FC = () => {
   };
 
   const handleAddExpense = (expenseData: Omit<Expense, 'id' | 'tripId'>) => {
-    if (!activeTripId) return;
-    const newExpense: Expense = { ...expenseData, id: `exp-${Date.now()}`, tripId: activeTripId };
+    if (!activeTripId || !currentUser) return;
+    const newExpense: Expense = { ...expenseData, id: `exp-${Date.now()}`, tripId: activeTripId, createdBy: currentUser.username, createdAt: new Date().toISOString() };
     setExpenses(prev => [...prev, newExpense]);
   };
+
+  const handleAddExpenses = (expensesData: Omit<Expense, 'id' | 'tripId'>[]) => {
+    if (!activeTripId || !currentUser) return;
+    const now = Date.now();
+    const newExpenses: Expense[] = expensesData.map((expenseData, i) => ({ ...expenseData, id: `exp-${now}-${i}`, tripId: activeTripId, createdBy: currentUser.username, createdAt: new Date(now).toISOString() }));
+    setExpenses(prev => [...prev, ...newExpenses]);
+  };
+
+  // Returns `updated` with an entry for what changed since `before` added to its history, or `before` if nothing did.
+  const withExpenseHistory = (before: Expense, updated: Expense, expenseTrip: Trip | undefined, changedBy: string): Expense => {
+    const changes = describeExpenseChanges(before, updated, id => expenseTrip ? getCategoryName(expenseTrip, id) : id, id => expenseTrip ? getPaymentAccountName(expenseTrip, id) : id, paidBy => expenseTrip ? getPayerName(expenseTrip, paidBy) : paidBy, id => expenseTrip ? getParticipantName(expenseTrip, id) : id);
+    if (changes.length === 0) return before;
+    return { ...updated, history: [...(before.history || []), { changedAt: new Date().toISOString(), changedBy, changes }] };
+  };
+
+  const handleUpdateExpense = (updatedExpense: Expense) => {
+    if (!currentUser) return;
+    setExpenses(prev => prev.map(exp => exp.id === updatedExpense.id ? withExpenseHistory(exp, updatedExpense, trips.find(t => t.id === exp.tripId), currentUser.username) : exp));
+  };
   
   const handleDeleteExpense = (expenseId: string) => {
      if (!window.confirm("¿Estás seguro de que quieres eliminar este gasto?")) return;
      setExpenses(prev => prev.filter(exp => exp.id !== expenseId));
   };
 
+  const handleAddSettlementTransfer = (transferData: Omit<SettlementTransfer, 'id' | 'tripId' | 'createdAt'>) => {
+    if (!activeTripId) return;
+    const newTransfer: SettlementTransfer = { ...transferData, id: `transfer-${Date.now()}`, tripId: activeTripId, createdAt: new Date().toISOString() };
+    setSettlementTransfers(prev => [...prev, newTransfer]);
+  };
+
+  const handleDeleteSettlementTransfer = (transferId: string) => {
+    if (!window.confirm("¿Eliminar este pago del historial? Las cuentas se recalcularán.")) return;
+    setSettlementTransfers(prev => prev.filter(tr => tr.id !== transferId));
+  };
+
   const handleAddMediaItem = (item: Omit<MediaItem, 'id' | 'tripId' | 'uploader'>) => {
     if (!activeTripId || !currentUser) return;
     const newMediaItem: MediaItem = { ...item, id: `media-${Date.now()}`, tripId: activeTripId, uploader: currentUser.username };
@@ -384,21 +527,41 @@ const App: React.FC = () => {
           <p className="text-slate-400">Comienza creando uno nuevo o uniéndote a uno existente.</p>
         </Card>
       ) : (
-        <div className="space-y-4">
-          {trips.map(trip => (
-            <Card key={trip.id} className="flex items-center justify-between hover:border-slate-600 transition-colors">
-              <div>
-                <h2 className="text-xl font-semibold text-teal-400">{trip.name}</h2>
-                <p className="text-sm text-slate-400">Participantes: {trip.participants.map(p => p.name).join(', ')}</p>
-                <p className="text-xs text-slate-500 mt-1">Código: {trip.tripCode} <Button variant="link" size="sm" className="p-0 ml-1 text-xs" onClick={() => copyToClipboard(trip.tripCode)}>Copiar</Button></p>
-              </div>
-              <div className="flex space-x-2">
-                 <Button onClick={() => setActiveTripId(trip.id)} variant="primary" size="sm">Abrir</Button>
-                 <Button onClick={() => handleDeleteTrip(trip.id)} variant="danger" size="sm" aria-label="Eliminar viaje">
-                    <TrashIcon className="w-4 h-4"/>
-                 </Button>
+        <div className="space-y-6">
+          {groupTripsByStatus(trips).map(group => (
+            <section key={group.status}>
+              <h2 className="text-sm font-semibold text-slate-400 uppercase tracking-wide mb-2">{TRIP_STATUS_LABELS[group.status]} ({group.trips.length})</h2>
+              <div className="space-y-4">
+                {group.trips.map(trip => (
+                  <Card key={trip.id} className={`flex items-center justify-between hover:border-slate-600 transition-colors ${group.status === 'archived' ? 'opacity-75' : ''}`}>
+                    <div className="flex items-center space-x-4 min-w-0">
+                      {trip.coverImage && <img src={trip.coverImage} alt={`Portada de ${trip.name}`} className="w-20 h-20 object-cover rounded-md flex-shrink-0" />}
+                      <div className="min-w-0">
+                        <h3 className="text-xl font-semibold text-teal-400">{trip.name}</h3>
+                        {(trip.startDate || trip.endDate || (trip.destinations && trip.destinations.length > 0)) && (
+                          <p className="text-sm text-slate-300">{[describeTripDates(trip, date => formatDate(date, { day: 'numeric', month: 'short', year: 'numeric' })), (trip.destinations || []).join(', ')].filter(Boolean).join(' · ')}</p>
+                        )}
+                        <p className="text-sm text-slate-400">Participantes: {trip.participants.map(p => p.name).join(', ')}</p>
+                        <p className="text-sm text-slate-400">Gastado: <span className="text-slate-200">{formatCurrency(getTripTotal(trip, expenses), getTripBaseCurrency(trip))}</span></p>
+                        <p className="text-xs text-slate-500 mt-1">Código: {trip.tripCode} <Button variant="link" size="sm" className="p-0 ml-1 text-xs" onClick={() => copyToClipboard(trip.tripCode)}>Copiar</Button></p>
+                      </div>
+                    </div>
+                    <div className="flex flex-col items-end space-y-2">
+                      <div className="flex space-x-2">
+                         <Button onClick={() => setActiveTripId(trip.id)} variant="primary" size="sm">Abrir</Button>
+                         <Button onClick={() => handleDeleteTrip(trip.id)} variant="danger" size="sm" aria-label="Eliminar viaje">
+                            <TrashIcon className="w-4 h-4"/>
+                         </Button>
+                      </div>
+                      <div className="flex space-x-3">
+                        <Button variant="link" size="sm" className="p-0 text-xs" onClick={() => setCopyingTrip({ trip, mode: 'duplicate' })}>Duplicar</Button>
+                        <Button variant="link" size="sm" className="p-0 text-xs" onClick={() => setCopyingTrip({ trip, mode: 'template' })}>Guardar como plantilla</Button>
+                      </div>
+                    </div>
+                  </Card>
+                ))}
               </div>
-            </Card>
+            </section>
           ))}
         </div>
       )}
@@ -408,7 +571,7 @@ const App: React.FC = () => {
   const renderTripCreateView = () => (
      <div className="p-4 md:p-6 flex-grow flex flex-col max-w-xl mx-auto w-full">
         <AppHeader title="Crear Nuevo Viaje" onLogout={handleLogout} currentTime={currentTime} showBackButton={() => setView('trip_dashboard')}/>
-        <TripCreateForm onSubmit={handleCreateTrip} onCancel={() => setView('trip_dashboard')} />
+        <TripCreateForm templates={tripTemplates} onSubmit={handleCreateTrip} onDeleteTemplate={handleDeleteTripTemplate} onCancel={() => setView('trip_dashboard')} />
      </div>
   );
 
@@ -432,14 +595,16 @@ const App: React.FC = () => {
     if (!activeTrip || !currentUser) return <p className="text-center p-10">Cargando viaje...</p>;
     return (
       <ActiveTripContext.Provider value={{ 
-          trip: activeTrip, 
+          trip: activeTrip, isReadOnly: isTripArchived(activeTrip), updateTrip: guardArchived(handleUpdateTrip), updateTripStatus: handleUpdateTripStatus,
+          mergeParticipant: guardArchived(handleMergeParticipant), removeParticipant: guardArchived(handleRemoveParticipant),
           currentUser,
-          expenses: activeTripExpenses, addExpense: handleAddExpense, deleteExpense: handleDeleteExpense, 
-          mediaItems: activeTripMediaItems, addMediaItem: handleAddMediaItem, deleteMediaItem: handleDeleteMediaItem,
-          infoItems: activeTripInfoItems, addInfoItem: handleAddInfoItem, updateInfoItem: handleUpdateInfoItem, deleteInfoItem: handleDeleteInfoItem,
-          chatMessages: activeTripChatMessages, addChatMessage: handleAddChatMessage,
-          itineraryItems: activeTripItineraryItems, addItineraryItem: handleAddItineraryItem, updateItineraryItem: handleUpdateItineraryItem, deleteItineraryItem: handleDeleteItineraryItem,
-          markedMapLocations: activeTripMarkedLocations, addMarkedMapLocation: handleAddMarkedMapLocation, deleteMarkedMapLocation: handleDeleteMarkedMapLocation,
+          expenses: activeTripExpenses, addExpense: guardArchived(handleAddExpense), addExpenses: guardArchived(handleAddExpenses), updateExpense: guardArchived(handleUpdateExpense), deleteExpense: guardArchived(handleDeleteExpense), 
+          settlementTransfers: activeTripSettlementTransfers, addSettlementTransfer: guardArchived(handleAddSettlementTransfer), deleteSettlementTransfer: guardArchived(handleDeleteSettlementTransfer),
+          mediaItems: activeTripMediaItems, addMediaItem: guardArchived(handleAddMediaItem), deleteMediaItem: guardArchived(handleDeleteMediaItem),
+          infoItems: activeTripInfoItems, addInfoItem: guardArchived(handleAddInfoItem), updateInfoItem: guardArchived(handleUpdateInfoItem), deleteInfoItem: guardArchived(handleDeleteInfoItem),
+          chatMessages: activeTripChatMessages, addChatMessage: guardArchived(handleAddChatMessage),
+          itineraryItems: activeTripItineraryItems, addItineraryItem: guardArchived(handleAddItineraryItem), updateItineraryItem: guardArchived(handleUpdateItineraryItem), deleteItineraryItem: guardArchived(handleDeleteItineraryItem),
+          markedMapLocations: activeTripMarkedLocations, addMarkedMapLocation: guardArchived(handleAddMarkedMapLocation), deleteMarkedMapLocation: guardArchived(handleDeleteMarkedMapLocation),
           navigateBack: () => setActiveTripId(null) 
       }}>
         <ActiveTripView onLogout={handleLogout} currentTimeGlobal={currentTime}/>
@@ -460,6 +625,15 @@ const App: React.FC = () => {
   return (
     <div className="min-h-screen flex flex-col bg-black">
       {currentRenderView}
+      {copyingTrip && (
+        <TripCopyModal
+          trip={copyingTrip.trip}
+          mode={copyingTrip.mode}
+          onDuplicate={(name, startDate) => handleDuplicateTrip(copyingTrip.trip, name, startDate)}
+          onSaveTemplate={name => handleSaveTripTemplate(copyingTrip.trip, name)}
+          onClose={() => setCopyingTrip(null)}
+        />
+      )}
       {showTripCodeModal && activeTrip && (
         <Modal title="¡Viaje Creado!" onClose={() => setShowTripCodeModal(null)}>
           <p className="text-slate-300 mb-2">Tu nuevo viaje "{activeTrip.name}" ha sido creado.</p>
@@ -490,6 +664,47 @@ const Modal: React.FC<{ title: string; onClose: () => void; children: React.Reac
 );
 
 
+// Asks for what a copy of a trip needs: a name, plus a new start date when duplicating.
+type TripCopyMode = 'duplicate' | 'template';
+interface TripCopyModalProps {
+  trip: Trip;
+  mode: TripCopyMode;
+  onDuplicate: (name: string, startDate: string) => void;
+  onSaveTemplate: (name: string) => void;
+  onClose: () => void;
+}
+const TripCopyModal: React.FC<TripCopyModalProps> = ({ trip, mode, onDuplicate, onSaveTemplate, onClose }) => {
+  const [name, setName] = useState(mode === 'duplicate' ? `${trip.name} (copia)` : trip.name);
+  const [startDate, setStartDate] = useState('');
+  const [error, setError] = useState('');
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const validationError = mode === 'duplicate' ? validateTripName(name) : validateTemplateName(name);
+    if (validationError) { setError(validationError); return; }
+    if (mode === 'duplicate') onDuplicate(name.trim(), startDate);
+    else onSaveTemplate(name);
+  };
+  return (
+    <Modal title={mode === 'duplicate' ? 'Duplicar Viaje' : 'Guardar como Plantilla'} onClose={onClose}>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <p className="text-sm text-slate-400">Se copian participantes, categorías, presupuestos, cuentas, documentos e itinerario; no los gastos, pagos, bote, chat ni recuerdos.</p>
+        <Input label={mode === 'duplicate' ? 'Nombre del nuevo viaje' : 'Nombre de la plantilla'} value={name} onChange={e => setName(e.target.value)} error={error} autoFocus />
+        {mode === 'duplicate' && (
+          <div>
+            <Input label="Nueva fecha de ida (Opcional)" type="date" value={startDate} onChange={e => setStartDate(e.target.value)} />
+            <p className="mt-1 text-xs text-slate-400">El itinerario y los documentos con fecha se mueven a partir de ella{trip.startDate ? '' : '; sin fecha, a partir de hoy'}.</p>
+          </div>
+        )}
+        <div className="flex justify-end space-x-3">
+          <Button type="button" variant="secondary" onClick={onClose}>Cancelar</Button>
+          <Button type="submit">{mode === 'duplicate' ? 'Duplicar' : 'Guardar'}</Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+
 // --- Sub-Components for Views ---
 interface AuthScreenProps {
   onLogin: (username: string, pass: string) => boolean;
@@ -580,23 +795,66 @@ const RegistrationForm: React.FC<RegistrationFormProps> = ({ onSubmit }) => {
   );
 };
 
-interface TripCreateFormProps { onSubmit: (name: string, participants: string[]) => void; onCancel: () => void; }
-const TripCreateForm: React.FC<TripCreateFormProps> = ({ onSubmit, onCancel }) => {
+type TripCreateDetails = Pick<Trip, 'startDate' | 'endDate' | 'destinations'>;
+interface TripCreateFormProps {
+  templates: TripTemplate[];
+  onSubmit: (name: string, participants: string[], details: TripCreateDetails, templateId?: string) => void;
+  onDeleteTemplate: (templateId: string) => void;
+  onCancel: () => void;
+}
+const TripCreateForm: React.FC<TripCreateFormProps> = ({ templates, onSubmit, onDeleteTemplate, onCancel }) => {
   const [tripName, setTripName] = useState(''); const [participantsStr, setParticipantsStr] = useState('');
+  const [startDate, setStartDate] = useState(''); const [endDate, setEndDate] = useState(''); const [destinationsStr, setDestinationsStr] = useState('');
+  const [templateId, setTemplateId] = useState('');
+  const template = templates.find(t => t.id === templateId);
+  // Choosing a template fills in its group and destinations, which can still be edited
+  const handleTemplateChange = (id: string) => {
+    setTemplateId(id);
+    const chosen = templates.find(t => t.id === id);
+    if (!chosen) return;
+    setParticipantsStr(chosen.trip.participants.map(p => p.name).join(', '));
+    setDestinationsStr((chosen.trip.destinations || []).join(', '));
+  };
+  const handleDeleteTemplate = () => {
+    if (!template) return;
+    onDeleteTemplate(template.id);
+  };
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     const participantNames = participantsStr.split(',').map(p => p.trim()).filter(p => p);
     if (participantNames.length === 0) { alert("Por favor, añade al menos un participante."); return; }
-    onSubmit(tripName, participantNames);
+    const datesError = validateTripDates(startDate, endDate);
+    if (datesError) { alert(datesError); return; }
+    const destinations = parseDestinations(destinationsStr);
+    onSubmit(tripName, participantNames, { startDate: startDate || undefined, endDate: endDate || undefined, destinations: destinations.length > 0 ? destinations : undefined }, template?.id);
   };
   return (
     <Card className="mt-4">
       <form onSubmit={handleSubmit} className="space-y-6">
+        {templates.length > 0 && (
+          <div>
+            <Select label="Empezar desde" id="template" value={templateId} onChange={e => handleTemplateChange(e.target.value)}>
+              <option value="">Viaje en blanco</option>
+              {templates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+            </Select>
+            {template && (
+              <p className="mt-1 text-xs text-slate-400">
+                Copia categorías, presupuestos, cuentas, {template.infoItems.length} {template.infoItems.length === 1 ? 'documento' : 'documentos'} y {template.itineraryItems.length} {template.itineraryItems.length === 1 ? 'plan' : 'planes'} del itinerario, que se moverán a partir de la fecha de ida.
+                <Button type="button" variant="link" size="sm" className="p-0 ml-1 text-xs text-red-400" onClick={handleDeleteTemplate}>Eliminar plantilla</Button>
+              </p>
+            )}
+          </div>
+        )}
         <Input label="Nombre del Viaje" id="tripName" type="text" placeholder="Ej: Vacaciones en Italia" value={tripName} onChange={e => setTripName(e.target.value)} required />
         <div>
           <Input label="Participantes" id="participants" type="text" placeholder="Ej: Ana, Juan, Eva (separados por comas)" value={participantsStr} onChange={e => setParticipantsStr(e.target.value)} required />
           <p className="mt-1 text-xs text-slate-400">Introduce los nombres separados por comas.</p>
         </div>
+        <div className="grid grid-cols-2 gap-4">
+          <Input label="Ida (Opcional)" id="startDate" type="date" value={startDate} onChange={e => setStartDate(e.target.value)} />
+          <Input label="Vuelta (Opcional)" id="endDate" type="date" value={endDate} min={startDate || undefined} onChange={e => setEndDate(e.target.value)} />
+        </div>
+        <Input label="Destinos (Opcional)" id="destinations" type="text" placeholder="Ej: Roma, Florencia (separados por comas)" value={destinationsStr} onChange={e => setDestinationsStr(e.target.value)} />
         <div className="flex justify-end space-x-3">
           <Button type="button" variant="secondary" onClick={onCancel}>Cancelar</Button>
           <Button type="submit">Crear Viaje</Button>
@@ -636,10 +894,20 @@ const AppHeader: React.FC<AppHeaderProps> = ({ title, onLogout, currentTime, sho
 // --- Active Trip Context & View ---
 interface ActiveTripContextType {
   trip: Trip;
+  isReadOnly: boolean; // Archived trip: changes are refused until its status changes
+  updateTrip: (updatedTrip: Trip) => void;
+  updateTripStatus: (status: TripStatus | undefined) => void;
+  mergeParticipant: (from: string, to: string) => void;
+  removeParticipant: (participantId: string) => void;
   currentUser: User;
   expenses: Expense[];
   addExpense: (expenseData: Omit<Expense, 'id' | 'tripId'>) => void;
+  addExpenses: (expensesData: Omit<Expense, 'id' | 'tripId'>[]) => void;
+  updateExpense: (updatedExpense: Expense) => void;
   deleteExpense: (expenseId: string) => void;
+  settlementTransfers: SettlementTransfer[];
+  addSettlementTransfer: (transferData: Omit<SettlementTransfer, 'id' | 'tripId' | 'createdAt'>) => void;
+  deleteSettlementTransfer: (transferId: string) => void;
   mediaItems: MediaItem[];
   addMediaItem: (item: Omit<MediaItem, 'id' | 'tripId' | 'uploader'>) => void;
   deleteMediaItem: (itemId: string) => void;
@@ -667,12 +935,13 @@ const useActiveTrip = () => {
   return context;
 };
 
-type MainTripView = 'GASTOS' | 'RECUERDOS' | 'INFO' | 'MAPAS' | 'CHAT' | 'ITINERARIO';
-type GastosSubView = 'list' | 'add' | 'summary' | 'calendar';
+type MainTripView = 'GASTOS' | 'RECUERDOS' | 'INFO' | 'MAPAS' | 'CHAT' | 'ITINERARIO' | 'AJUSTES';
+type GastosSubView = 'list' | 'add' | 'summary' | 'calendar' | 'import';
+const GASTOS_SUBVIEW_LABELS: Record<GastosSubView, string> = { list: 'Lista', add: 'Añadir', summary: 'Resumen', calendar: 'Calendario', import: 'Importar' };
 
 
 const ActiveTripView: React.FC<{onLogout: () => void; currentTimeGlobal: string}> = ({onLogout, currentTimeGlobal}) => {
-  const { trip, navigateBack } = useActiveTrip();
+  const { trip, isReadOnly, navigateBack } = useActiveTrip();
   const [currentMainView, setCurrentMainView] = useState<MainTripView>('GASTOS');
   const [unreadMessages, setUnreadMessages] = useState(0); 
   const chatAudioRef = useRef<HTMLAudioElement | null>(null);
@@ -706,11 +975,12 @@ const ActiveTripView: React.FC<{onLogout: () => void; currentTimeGlobal: string}
       case 'MAPAS': return <MapasView />;
       case 'CHAT': return <ChatView />;
       case 'ITINERARIO': return <ItinerarioView />;
+      case 'AJUSTES': return <TripSettingsView />;
       default: return <p>Sección no encontrada.</p>;
     }
   };
 
-  const mainViews: MainTripView[] = ['GASTOS', 'RECUERDOS', 'INFO', 'MAPAS', 'CHAT', 'ITINERARIO'];
+  const mainViews: MainTripView[] = ['GASTOS', 'RECUERDOS', 'INFO', 'MAPAS', 'CHAT', 'ITINERARIO', 'AJUSTES'];
 
   return (
     <div className="flex-grow flex flex-col p-4 md:p-6 max-w-4xl mx-auto w-full"> 
@@ -738,6 +1008,11 @@ const ActiveTripView: React.FC<{onLogout: () => void; currentTimeGlobal: string}
                 </button>
             ))}
         </div>
+        {isReadOnly && (
+          <p className="mb-4 p-3 rounded-md border border-slate-600 bg-slate-800 text-sm text-slate-300">
+            Este viaje está archivado y solo se puede consultar. <Button variant="link" size="sm" className="p-0 text-sm" onClick={() => setCurrentMainView('AJUSTES')}>Reabrirlo en Ajustes</Button>
+          </p>
+        )}
         <div className="flex-grow">
           {renderMainContent()}
         </div>
@@ -747,20 +1022,62 @@ const ActiveTripView: React.FC<{onLogout: () => void; currentTimeGlobal: string}
 
 // --- GASTOS Section ---
 const GastosView: React.FC = () => {
-  const { trip, expenses, addExpense, deleteExpense } = useActiveTrip();
+  const { trip, isReadOnly, updateTrip, expenses, addExpense, updateExpense, deleteExpense, settlementTransfers, addSettlementTransfer, deleteSettlementTransfer } = useActiveTrip();
+  const baseCurrency = getTripBaseCurrency(trip);
+  const categories = getTripCategories(trip);
+  const paymentAccounts = getTripPaymentAccounts(trip);
   const [currentSubView, setCurrentSubView] = useState<GastosSubView>('list');
-  const [newExpense, setNewExpense] = useState(() => {
-    const today = new Date().toISOString().split('T')[0];
-    return {
-      date: today, amount: '' as string | number, category: CATEGORIES[0],
-      description: '', paidBy: trip.participants[0]?.name || '',
-      proofImage: undefined as string | undefined, paymentMethod: '' as 'tarjeta' | 'efectivo' | '',
-    };
+  const getPresentIds = (date: string, endDate?: string) => getParticipantsPresentDuring(trip.participants, date, endDate).map(p => p.id);
+  const getEmptyExpenseForm = () => ({
+    date: new Date().toISOString().split('T')[0], endDate: '', amount: '' as string | number, currency: baseCurrency, category: categories[0].id,
+    description: '', paidBy: trip.participants[0]?.id || '', kind: 'expense' as ExpenseKind, refundOf: '',
+    tags: [] as string[], proofImage: undefined as string | undefined, receiptText: '', paymentMethod: '',
+    splitMode: 'equal' as ExpenseSplitMode, splitParticipants: getPresentIds(new Date().toISOString().split('T')[0]), splitValues: {} as Record<string, string>,
+    splitItems: [] as LineItemForm[], splitTax: '', splitTip: '', splitDiscount: '',
   });
+  const getExpenseForm = (exp: Expense) => ({
+    date: exp.date, endDate: exp.endDate || '', amount: String(exp.amount) as string | number, currency: getExpenseCurrency(exp, trip), category: exp.category,
+    description: exp.description, paidBy: exp.paidBy, kind: exp.kind || 'expense' as ExpenseKind, refundOf: exp.refundOf || '',
+    tags: exp.tags || [], proofImage: exp.proofImage, receiptText: exp.receiptText || '', paymentMethod: exp.paymentMethod || '',
+    splitMode: exp.split?.mode || 'equal' as ExpenseSplitMode,
+    splitParticipants: exp.split ? exp.split.participants : getPresentIds(exp.date, exp.endDate),
+    splitValues: Object.fromEntries(Object.entries(exp.split?.values || {}).map(([id, value]) => [id, String(value)])) as Record<string, string>,
+    splitItems: (exp.split?.items || []).map(item => ({ ...item, amount: String(item.amount) })) as LineItemForm[],
+    splitTax: exp.split?.tax ? String(exp.split.tax) : '', splitTip: exp.split?.tip ? String(exp.split.tip) : '', splitDiscount: exp.split?.discount ? String(exp.split.discount) : '',
+  });
+  const [newExpense, setNewExpense] = useState(getEmptyExpenseForm);
+  const [editingExpenseId, setEditingExpenseId] = useState<string | null>(null);
+  const [expandedHistoryId, setExpandedHistoryId] = useState<string | null>(null);
+  const [listFilters, setListFilters] = useState<ExpenseFilters>(EMPTY_EXPENSE_FILTERS);
+  const [listSortKey, setListSortKey] = useState<ExpenseSortKey>('date_desc');
+  const [listGroupKey, setListGroupKey] = useState<ExpenseGroupKey>('none');
   const [proofImagePreviewUrl, setProofImagePreviewUrl] = useState<string | null>(null);
   const proofImageInputRef = useRef<HTMLInputElement>(null);
+  const [ocrProgress, setOcrProgress] = useState<number | null>(null);
+  const [receiptSuggestion, setReceiptSuggestion] = useState<ReceiptSuggestion | null>(null);
   const [formError, setFormError] = useState('');
 
+  const resetExpenseForm = () => {
+    setNewExpense(getEmptyExpenseForm());
+    setEditingExpenseId(null);
+    setProofImagePreviewUrl(null);
+    setReceiptSuggestion(null);
+    setFormError('');
+    if (proofImageInputRef.current) proofImageInputRef.current.value = '';
+  };
+  const handleStartEditExpense = (exp: Expense) => {
+    setNewExpense(getExpenseForm(exp));
+    setEditingExpenseId(exp.id);
+    setProofImagePreviewUrl(exp.proofImage || null);
+    setReceiptSuggestion(null);
+    setFormError('');
+    setCurrentSubView('add');
+  };
+  const handleSubViewChange = (viewKey: GastosSubView) => {
+    if (editingExpenseId) resetExpenseForm();
+    setCurrentSubView(viewKey);
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value, type } = e.target;
     if (type === 'file') { 
@@ -769,110 +1086,261 @@ const GastosView: React.FC = () => {
             const file = fileInput.files[0];
             const reader = new FileReader();
             reader.onloadend = () => {
-                setNewExpense(prev => ({ ...prev, proofImage: reader.result as string }));
+                setNewExpense(prev => ({ ...prev, proofImage: reader.result as string, receiptText: '' }));
                 setProofImagePreviewUrl(reader.result as string);
+                setReceiptSuggestion(null);
             };
             reader.readAsDataURL(file);
         } else {
-            setNewExpense(prev => ({ ...prev, proofImage: undefined }));
+            setNewExpense(prev => ({ ...prev, proofImage: undefined, receiptText: '' }));
             setProofImagePreviewUrl(null);
+            setReceiptSuggestion(null);
         }
+    } else if (name === 'date' || name === 'endDate') {
+        // An untouched equal split follows the dates, so it keeps matching who is on the trip
+        setNewExpense(prev => {
+            const next = { ...prev, [name]: value };
+            const followsPresence = prev.splitMode === 'equal' && isDefaultSplit({ mode: 'equal', participants: prev.splitParticipants }, trip.participants, { date: prev.date, endDate: prev.endDate || undefined });
+            return followsPresence && next.date ? { ...next, splitParticipants: getPresentIds(next.date, next.endDate || undefined) } : next;
+        });
     } else {
         setNewExpense(prev => ({ ...prev, [name]: name === 'amount' ? (value === '' ? '' : value) : value }));
     }
   };
   const handleRemoveProofImage = () => { 
-    setNewExpense(prev => ({ ...prev, proofImage: undefined }));
+    setNewExpense(prev => ({ ...prev, proofImage: undefined, receiptText: '' }));
     setProofImagePreviewUrl(null);
+    setReceiptSuggestion(null);
     if (proofImageInputRef.current) proofImageInputRef.current.value = '';
   };
+  const handleScanReceipt = async () => {
+    if (!newExpense.proofImage) return;
+    setOcrProgress(0);
+    setReceiptSuggestion(null);
+    try {
+      const text = await recognizeReceiptText(newExpense.proofImage, setOcrProgress);
+      setNewExpense(prev => ({ ...prev, receiptText: text }));
+      setReceiptSuggestion(parseReceiptText(text, categories));
+      setFormError('');
+    } catch (error) {
+      console.error("Error reading receipt:", error);
+      setFormError("No se pudo leer el comprobante. Introduce los datos a mano.");
+    } finally {
+      setOcrProgress(null);
+    }
+  };
+  const handleApplyReceiptSuggestion = () => {
+    if (!receiptSuggestion) return;
+    const { amount, date, description, category } = receiptSuggestion;
+    setNewExpense(prev => ({
+      ...prev,
+      ...(amount !== undefined && { amount: String(amount) }),
+      ...(date && { date, endDate: prev.endDate && prev.endDate < date ? '' : prev.endDate }),
+      ...(description && { description }),
+      ...(category && { category }),
+    }));
+    setReceiptSuggestion(null);
+  };
+  // Linking a refund copies the original's category, currency and split, so it gives back to the same people.
+  // An original shared by presence gets its actual shares frozen, since the refund's own dates may differ.
+  const handleRefundOfChange = (refundOf: string) => {
+    const original = expenses.find(exp => exp.id === refundOf);
+    if (!original) { setNewExpense(prev => ({ ...prev, refundOf })); return; }
+    const split = original.split || getSharesAsSplit(getExpenseShares(original, trip.participants), trip.participants);
+    const { category, currency, splitMode, splitParticipants, splitValues, splitItems, splitTax, splitTip, splitDiscount } = getExpenseForm({ ...original, split });
+    setNewExpense(prev => ({
+      ...prev, refundOf, category, currency, splitMode, splitParticipants, splitValues, splitItems, splitTax, splitTip, splitDiscount,
+      description: prev.description || `${EXPENSE_KIND_LABELS[prev.kind]}: ${original.description || getCategoryName(trip, original.category)}`,
+    }));
+  };
+  const refundableExpenses = expenses.filter(exp => !isCreditEntry(exp) && exp.id !== editingExpenseId).sort((a, b) => b.date.localeCompare(a.date));
+  const itemizedSplit = newExpense.splitMode === 'items' ? buildItemizedSplit(newExpense) : null;
+  const itemizedTotal = itemizedSplit ? Math.round(getItemizedTotal(itemizedSplit) * 100) / 100 : 0;
   const handleAddExpenseSubmit = (e: React.FormEvent) => { 
     e.preventDefault();
-    const amountStr = String(newExpense.amount).trim().replace(',', '.');
+    if (itemizedSplit && itemizedSplit.items!.length === 0) { setFormError("Añade al menos un concepto a la cuenta."); return; }
+    const amountStr = itemizedSplit ? String(itemizedTotal) : String(newExpense.amount).trim().replace(',', '.');
     if (amountStr === '' || parseFloat(amountStr) <= 0) { setFormError("La cantidad es obligatoria y debe ser mayor que cero."); return; }
     const numericAmount = parseFloat(amountStr);
     if (isNaN(numericAmount)) { setFormError("La cantidad debe ser un número válido."); return; }
-    if (!newExpense.paidBy) { setFormError("Por favor, selecciona quién pagó."); return; }
+    if (!newExpense.paidBy) { setFormError(newExpense.kind === 'refund' ? "Por favor, selecciona quién recibió el dinero." : "Por favor, selecciona quién pagó."); return; }
+    if (newExpense.endDate && newExpense.endDate < newExpense.date) { setFormError("La fecha final no puede ser anterior a la fecha del gasto."); return; }
+    if (newExpense.endDate && getDaysInRange(newExpense.date, newExpense.endDate).length >= MAX_EXPENSE_RANGE_DAYS) { setFormError(`Un gasto no puede repartirse en más de ${MAX_EXPENSE_RANGE_DAYS - 1} días.`); return; }
+    const { splitMode, splitParticipants, splitValues, splitItems, splitTax, splitTip, splitDiscount, ...expenseFields } = newExpense;
+    const split: ExpenseSplit = itemizedSplit || { mode: splitMode, participants: splitParticipants };
+    if (splitMode !== 'equal' && splitMode !== 'items') {
+      split.values = {};
+      splitParticipants.forEach(id => { split.values![id] = parseFloat((splitValues[id] || '').trim().replace(',', '.')); });
+    }
+    const splitError = validateExpenseSplit(split, numericAmount);
+    if (splitError) { setFormError(splitError); return; }
     setFormError('');
-    addExpense({ ...newExpense, amount: numericAmount, paymentMethod: newExpense.paymentMethod || undefined });
-    setNewExpense({ date: new Date().toISOString().split('T')[0], amount: '', category: CATEGORIES[0], description: '', paidBy: trip.participants[0]?.name || '', proofImage: undefined, paymentMethod: '' });
-    setProofImagePreviewUrl(null);
-    if (proofImageInputRef.current) proofImageInputRef.current.value = '';
+    const expenseData = { ...expenseFields, endDate: newExpense.endDate && newExpense.endDate > newExpense.date ? newExpense.endDate : undefined, amount: numericAmount, currency: newExpense.currency === baseCurrency ? undefined : newExpense.currency, kind: newExpense.kind === 'expense' ? undefined : newExpense.kind, refundOf: newExpense.kind !== 'expense' && newExpense.refundOf ? newExpense.refundOf : undefined, tags: newExpense.tags.length > 0 ? newExpense.tags : undefined, receiptText: newExpense.receiptText || undefined, paymentMethod: newExpense.paymentMethod || undefined, split: isDefaultSplit(split, trip.participants, { date: newExpense.date, endDate: newExpense.endDate || undefined }) ? undefined : split };
+    const editingExpense = editingExpenseId ? expenses.find(exp => exp.id === editingExpenseId) : undefined;
+    const refundedExpense = expenseData.refundOf ? expenses.find(exp => exp.id === expenseData.refundOf) : undefined;
+    if (refundedExpense) {
+      const creditAmount = -toBaseCurrencyExpense({ ...expenseData, id: editingExpenseId || 'new', tripId: trip.id }, trip).amount;
+      const creditError = validateCreditEntry(creditAmount, refundedExpense, expenses, getBaseAmount, editingExpenseId || undefined);
+      if (creditError) { setFormError(creditError); return; }
+    }
+    const budgetWarnings = getBudgetWarnings(
+      trip.budget,
+      baseExpenses.filter(exp => exp.id !== editingExpenseId),
+      toBaseCurrencyExpense({ ...expenseData, id: editingExpenseId || 'new', tripId: trip.id }, trip),
+      baseCurrency,
+      getCategoryName(trip, expenseData.category),
+    );
+    if (budgetWarnings.length > 0 && !window.confirm(`${budgetWarnings.join('\n')}\n\n¿Guardar el gasto de todos modos?`)) return;
+    if (editingExpense) updateExpense({ ...editingExpense, ...expenseData });
+    else addExpense(expenseData);
+    resetExpenseForm();
     setCurrentSubView('list'); 
   };
   
-  const totalTripCost = useMemo(() => expenses.reduce((sum, exp) => sum + exp.amount, 0), [expenses]);
+  // Every aggregate below works on amounts converted to the trip's base currency.
+  const baseExpenses = useMemo(() => expenses.map(exp => toBaseCurrencyExpense(exp, trip)), [expenses, trip]);
+  const usedTags = useMemo(() => getUsedTags(expenses), [expenses]);
+  const totalsByTag = useMemo(() => getTotalsByTag(baseExpenses, exp => exp.amount), [baseExpenses]);
+  const paymentAccountTotals = useMemo(() => getPaymentAccountTotals(expenses, trip), [expenses, trip]);
+  const missingRateCurrencies = useMemo(() => getMissingRateCurrencies(expenses, trip), [expenses, trip]);
+  const totalTripCost = useMemo(() => baseExpenses.reduce((sum, exp) => sum + exp.amount, 0), [baseExpenses]);
   const expensesByCategory = useMemo(() => {
-    const byCategory: Record<ExpenseCategory, number> = {} as Record<ExpenseCategory, number>;
-    CATEGORIES.forEach(cat => byCategory[cat] = 0);
-    expenses.forEach(exp => { byCategory[exp.category] = (byCategory[exp.category] || 0) + exp.amount; });
+    const byCategory: Record<string, number> = {};
+    categories.forEach(cat => byCategory[cat.id] = 0);
+    baseExpenses.forEach(exp => { byCategory[exp.category] = (byCategory[exp.category] || 0) + exp.amount; });
     return byCategory;
-  }, [expenses]);
-  const expensesByParticipant = useMemo(() => { 
+  }, [baseExpenses, categories]);
+  // What the kitty paid is charged to its contributors, so this already accounts for the leftover they get back
+  const expensesByParticipant = useMemo(() => getPaidByParticipant(trip, baseExpenses), [trip, baseExpenses]);
+  const sharesByParticipant = useMemo(() => getSharesByParticipant(baseExpenses, trip.participants), [baseExpenses, trip.participants]);
+  const absenceSummaries = useMemo(() => getAbsenceSummaries(baseExpenses, trip.participants), [baseExpenses, trip.participants]);
+  const tripCharts = useMemo(() => buildTripCharts({ trip, expenses: baseExpenses, currency: baseCurrency }), [trip, baseExpenses, baseCurrency]);
+  // Transfers already made count as payments: the sender's debt shrinks and the receiver is owed less.
+  const transferBalances = useMemo(() => {
     const byParticipant: Record<string, number> = {};
-    trip.participants.forEach(p => byParticipant[p.name] = 0);
-    expenses.forEach(exp => { byParticipant[exp.paidBy] = (byParticipant[exp.paidBy] || 0) + exp.amount; });
+    trip.participants.forEach(p => byParticipant[p.id] = 0);
+    settlementTransfers.forEach(tr => {
+      byParticipant[tr.from] = (byParticipant[tr.from] || 0) + tr.amount;
+      byParticipant[tr.to] = (byParticipant[tr.to] || 0) - tr.amount;
+    });
     return byParticipant;
-  }, [expenses, trip.participants]);
+  }, [settlementTransfers, trip.participants]);
+  const totalTransferred = useMemo(() => settlementTransfers.reduce((sum, tr) => sum + tr.amount, 0), [settlementTransfers]);
+  // Refunds and adjustments can bring the total to zero while someone is still owed money, so only balances decide.
   const settledPayments = useMemo(() => { 
-    if (trip.participants.length < 2 || totalTripCost === 0) return [];
-    const avgCost = totalTripCost / trip.participants.length;
+    if (trip.participants.length < 2) return [];
     const balances: Record<string, number> = {};
-    trip.participants.forEach(p => { balances[p.name] = (expensesByParticipant[p.name] || 0) - avgCost; });
-    const debtors = Object.entries(balances).filter(([,amt]) => amt < -0.005).sort((a,b) => a[1] - b[1]); 
-    const creditors = Object.entries(balances).filter(([,amt]) => amt > 0.005).sort((a,b) => b[1] - a[1]);
-    const payments: SettledPayment[] = []; let dIdx = 0; let cIdx = 0;
-    while(dIdx < debtors.length && cIdx < creditors.length) {
-      const transfer = Math.min(-debtors[dIdx][1], creditors[cIdx][1]);
-      if (transfer > 0.005) { payments.push({ from: debtors[dIdx][0], to: creditors[cIdx][0], amount: transfer }); }
-      debtors[dIdx][1] += transfer; creditors[cIdx][1] -= transfer;
-      if (Math.abs(debtors[dIdx][1]) < 0.005) dIdx++;
-      if (Math.abs(creditors[cIdx][1]) < 0.005) cIdx++;
-    }
-    return payments;
-  }, [totalTripCost, expensesByParticipant, trip.participants]);
+    trip.participants.forEach(p => { balances[p.id] = (expensesByParticipant[p.id] || 0) - (sharesByParticipant[p.id] || 0) + (transferBalances[p.id] || 0); });
+    return computeSettlement(balances, { currency: baseCurrency, participants: trip.participants.map(p => p.id), avoidPairs: trip.settlementAvoidPairs });
+  }, [expensesByParticipant, sharesByParticipant, transferBalances, trip.participants, trip.settlementAvoidPairs, baseCurrency]);
+  const totalOutstanding = useMemo(() => settledPayments.reduce((sum, payment) => sum + payment.amount, 0), [settledPayments]);
 
-  const formatCurrency = (amount: number) => new Intl.NumberFormat('es-ES', { style: 'currency', currency: 'EUR' }).format(amount);
+  const formatBase = (amount: number) => formatCurrency(amount, baseCurrency);
   
   const handleExportPDF = () => { 
     if (!window.jspdf || !window.jspdf.jsPDF) { console.error("jsPDF not loaded."); alert("Error exporting PDF."); return; }
-    const { jsPDF: JSPDF } = window.jspdf; const doc = new JSPDF(); let y = 15;
-    const addLine = (text: string, size=10, indent=10) => { doc.setFontSize(size); doc.text(text, indent, y); y += (size * 0.5 + 2); if (y > 280) { doc.addPage(); y = 15;}};
-    
-    addLine(`Resumen del Viaje: ${trip.name}`, 18); y += 5;
-    
-    addLine('Resumen General', 14);
-    addLine(`Costo Total: ${formatCurrency(totalTripCost)}`);
-    addLine(`Total de gastos: ${expenses.length}`); y += 5;
-
-    addLine('Gastos por Participante', 14);
-    Object.entries(expensesByParticipant).forEach(([name, amount]) => {
-      addLine(`${name}: ${formatCurrency(amount)}`);
-    });
-    y += 5;
-
-    addLine('Gastos por Categoría', 14);
-    Object.entries(expensesByCategory).forEach(([category, amount]) => {
-        if (amount > 0) addLine(`${category}: ${formatCurrency(amount)}`);
-    });
-    y += 5;
-
-    if (settledPayments.length > 0) {
-        addLine('Liquidación de Cuentas', 14);
-        settledPayments.forEach(payment => {
-            addLine(`${payment.from} paga a ${payment.to}: ${formatCurrency(payment.amount)}`);
-        });
-    }
-
+    const { jsPDF: JSPDF } = window.jspdf; const doc = new JSPDF();
+    // Same charts as the "Resumen" subview, redrawn on a white background for the page
+    const chartImages = tripCharts.map(chart => renderChartImage(chart)).filter((image): image is string => !!image);
+    buildTripReportPdf(doc, { trip, expenses, transfers: settlementTransfers, settlements: settledPayments, chartImages });
     doc.save(`resumen_viaje_${trip.name.replace(/\s/g, '_')}.pdf`);
   };
-  const chartDataByCategory = useMemo(() => { 
-    const labels: string[] = []; const data: number[] = []; const backgroundColors: string[] = []; let cIdx = 0;
-    CATEGORIES.forEach(cat => { if (expensesByCategory[cat] > 0) { labels.push(cat); data.push(expensesByCategory[cat]); backgroundColors.push(CHART_COLORS[cIdx % CHART_COLORS.length]); cIdx++; }});
-    return { labels, data, backgroundColors };
-  }, [expensesByCategory]);
+  const getBaseAmount = (exp: Expense) => toBaseCurrencyExpense(exp, trip).amount;
+  const filteredExpenses = useMemo(() => sortExpenses(filterExpenses(expenses, listFilters, getBaseAmount, id => getCategoryName(trip, id)), listSortKey, getBaseAmount), [expenses, listFilters, listSortKey, trip]);
+  const filteredTotal = useMemo(() => filteredExpenses.reduce((sum, exp) => sum + getBaseAmount(exp), 0), [filteredExpenses, trip]);
+  const expenseGroups = useMemo(() => groupExpenses(filteredExpenses, listGroupKey, getBaseAmount), [filteredExpenses, listGroupKey, trip]);
+
+  // Exports the expenses currently visible in the list; settlement suggestions always cover the whole trip.
+  const handleExportData = (format: 'csv' | 'json' | 'xlsx') => {
+    const data: TripExportData = { trip, expenses: filteredExpenses, transfers: settlementTransfers, settlements: settledPayments, filtersApplied: countActiveFilters(listFilters) > 0 };
+    const baseName = `gastos_${trip.name.replace(/\s/g, '_')}`;
+    if (format === 'csv') downloadFile('\uFEFF' + buildTripExportCsv(data), `${baseName}.csv`, 'text/csv;charset=utf-8');
+    else if (format === 'json') downloadFile(buildTripExportJson(data), `${baseName}.json`, 'application/json');
+    else downloadFile(buildXlsx(buildTripExportTables(data)), `${baseName}.xlsx`, 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+  };
+
+  const renderExpenseItem = (exp: Expense) => {
+    const category = getCategory(trip, exp.category);
+    const isCredit = isCreditEntry(exp);
+    const refundedExpense = exp.refundOf ? expenses.find(e => e.id === exp.refundOf) : undefined;
+    const refunded = isCredit ? 0 : getRefundedAmount(exp, expenses, getBaseAmount);
+    return (
+      <Card key={exp.id} className={isCredit ? 'border-l-4 border-l-green-500' : ''}>
+        <div className="flex flex-col sm:flex-row items-start justify-between">
+          <div className="flex items-center space-x-3 mb-2 sm:mb-0 flex-grow">
+              <div className={`p-2 rounded-full text-white ${category.color}`}>
+                  {React.cloneElement(CATEGORY_ICONS[category.icon] as React.ReactElement<any>, { className: "w-5 h-5" })}
+              </div>
+              <div>
+                  <p className="font-semibold text-slate-100">
+                      {isCredit && <span className="mr-2 px-2 py-0.5 rounded-full bg-green-800 text-green-200 text-xs font-medium">{EXPENSE_KIND_LABELS[exp.kind!]}</span>}
+                      {exp.description || category.name}
+                  </p>
+                  <p className="text-xs text-slate-400">
+                      {exp.endDate ? `${formatDate(exp.date, { day: 'numeric', month: 'short' })} – ${formatDate(exp.endDate)} (${getExpenseDayCount(exp)} días)` : formatDate(exp.date)} {exp.kind === 'refund' ? 'recibido por' : 'por'} {getPayerName(trip, exp.paidBy)}
+                      {exp.paymentMethod && <span className="ml-1">({getPaymentAccountName(trip, exp.paymentMethod)})</span>}
+                  </p>
+                  {exp.refundOf && (
+                      <p className="text-xs text-green-400">Devuelve parte de: {refundedExpense ? `${refundedExpense.description || getCategoryName(trip, refundedExpense.category)} (${formatDate(refundedExpense.date, { day: 'numeric', month: 'short' })})` : 'un gasto eliminado'}</p>
+                  )}
+                  {refunded > 0 && <p className="text-xs text-green-400">Devuelto {formatBase(refunded)} · Neto {formatBase(getBaseAmount(exp) - refunded)}</p>}
+                  {!isDefaultSplit(exp.split, trip.participants, exp) && (
+                      <p className="text-xs text-slate-500">
+                          {SPLIT_MODE_LABELS[exp.split!.mode]}: {Object.entries(getExpenseShares(exp, trip.participants)).map(([id, share]) => `${getParticipantName(trip, id)} ${formatCurrency(share, getExpenseCurrency(exp, trip))}`).join(', ')}
+                      </p>
+                  )}
+                  {!exp.split && Object.keys(getExpenseShares(exp, trip.participants)).length < trip.participants.length && (
+                      <p className="text-xs text-slate-500">Solo entre quienes estaban: {Object.entries(getExpenseShares(exp, trip.participants)).map(([id, share]) => `${getParticipantName(trip, id)} ${formatCurrency(share, getExpenseCurrency(exp, trip))}`).join(', ')}</p>
+                  )}
+                  {exp.tags && exp.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-1">
+                          {exp.tags.map(tag => <span key={tag} className="px-2 py-0.5 rounded-full bg-slate-700 text-xs text-slate-300">#{tag}</span>)}
+                      </div>
+                  )}
+                  {exp.split?.mode === 'items' && (
+                      <p className="text-xs text-slate-500">{(exp.split.items || []).map(item => `${item.description || 'Concepto'} (${item.participants.map(id => getParticipantName(trip, id)).join(', ')})`).join(' · ')}</p>
+                  )}
+                  {exp.proofImage && <img src={exp.proofImage} alt="Comprobante" className="mt-1 w-16 h-16 object-cover rounded-md border border-slate-600" />}
+                  {exp.history && exp.history.length > 0 && (
+                      <Button variant="link" size="sm" className="p-0 text-xs" onClick={() => setExpandedHistoryId(id => id === exp.id ? null : exp.id)}>
+                          {expandedHistoryId === exp.id ? 'Ocultar historial' : `Editado ${exp.history.length} ${exp.history.length === 1 ? 'vez' : 'veces'} · Ver historial`}
+                      </Button>
+                  )}
+              </div>
+          </div>
+          <div className="text-right flex-shrink-0 mt-2 sm:mt-0">
+              <p className={`font-semibold text-lg ${isCredit ? 'text-green-400' : 'text-slate-100'}`}>{formatCurrency(getSignedAmount(exp), getExpenseCurrency(exp, trip))}</p>
+              {getExpenseCurrency(exp, trip) !== baseCurrency && (
+                  <p className="text-xs text-slate-400">≈ {formatBase(getBaseAmount(exp))}</p>
+              )}
+              {!isReadOnly && (
+                  <div className="flex justify-end space-x-1 mt-1">
+                      <Button onClick={() => handleStartEditExpense(exp)} variant="ghost" size="sm" className="text-slate-300 hover:text-teal-400 p-1" aria-label="Editar gasto"><PencilIcon className="w-4 h-4"/></Button>
+                      <Button onClick={() => deleteExpense(exp.id)} variant="ghost" size="sm" className="text-red-400 hover:text-red-500 p-1" aria-label="Eliminar gasto"><TrashIcon className="w-4 h-4"/></Button>
+                  </div>
+              )}
+          </div>
+        </div>
+        {expandedHistoryId === exp.id && exp.history && (
+          <div className="mt-3 border-t border-slate-700 pt-3 space-y-2">
+              {exp.createdBy && <p className="text-xs text-slate-500">Creado por {exp.createdBy}{exp.createdAt && ` el ${new Date(exp.createdAt).toLocaleString('es-ES')}`}</p>}
+              {exp.history.slice().reverse().map((entry, index) => (
+                  <div key={index} className="text-xs">
+                      <p className="text-slate-300 font-medium">{entry.changedBy} · {new Date(entry.changedAt).toLocaleString('es-ES')}</p>
+                      <ul className="ml-3 text-slate-400">
+                          {entry.changes.map((change, cIdx) => (
+                              <li key={cIdx}>{change.field}: <span className="line-through">{change.from}</span> → <span className="text-slate-200">{change.to}</span></li>
+                          ))}
+                      </ul>
+                  </div>
+              ))}
+          </div>
+        )}
+      </Card>
+    );
+  };
 
-  const gastosSubViews: GastosSubView[] = ['list', 'add', 'summary', 'calendar'];
+  const gastosSubViews: GastosSubView[] = isReadOnly ? ['list', 'summary', 'calendar'] : ['list', 'add', 'summary', 'calendar', 'import'];
 
   return (
     <div className="space-y-6">
@@ -880,33 +1348,92 @@ const GastosView: React.FC = () => {
         {gastosSubViews.map(viewKey => (
           <button
             key={viewKey}
-            onClick={() => setCurrentSubView(viewKey)}
+            onClick={() => handleSubViewChange(viewKey)}
             className={`px-3 py-2.5 text-xs font-medium capitalize -mb-px border-b-2 flex items-center space-x-1.5 whitespace-nowrap
               ${currentSubView === viewKey ? 'border-teal-400 text-teal-300' : 'border-transparent text-slate-400 hover:text-slate-200 hover:border-slate-500'}`}
           >
             {GASTOS_SUBVIEW_ICONS[viewKey]}
-            <span>{viewKey === 'list' ? 'Lista' : viewKey === 'add' ? 'Añadir' : viewKey === 'summary' ? 'Resumen' : 'Calendario'}</span>
+            <span>{GASTOS_SUBVIEW_LABELS[viewKey]}</span>
           </button>
         ))}
       </div>
 
-      {currentSubView === 'add' && ( 
+      {currentSubView === 'add' && !isReadOnly && ( 
         <Card>
-            <h2 className="text-xl font-semibold text-slate-100 mb-4">Añadir Nuevo Gasto</h2>
+            <h2 className="text-xl font-semibold text-slate-100 mb-4">{editingExpenseId ? `Editar ${EXPENSE_KIND_LABELS[newExpense.kind]}` : 'Añadir Nuevo Gasto'}</h2>
             <form onSubmit={handleAddExpenseSubmit} className="space-y-4">
-                <Input label="Fecha" type="date" name="date" value={newExpense.date} onChange={handleInputChange} required />
-                <Input label="Cantidad (€)" type="text" name="amount" placeholder="0.00" value={String(newExpense.amount)} onChange={handleInputChange} required inputMode="decimal" />
+                <div className="grid grid-cols-3 gap-2">
+                    {(Object.keys(EXPENSE_KIND_LABELS) as ExpenseKind[]).map(kind => (
+                        <Button key={kind} type="button" size="sm" variant={newExpense.kind === kind ? 'primary' : 'secondary'} onClick={() => setNewExpense(prev => ({ ...prev, kind, refundOf: kind === 'expense' ? '' : prev.refundOf }))}>
+                            {EXPENSE_KIND_LABELS[kind]}
+                        </Button>
+                    ))}
+                </div>
+                {newExpense.kind !== 'expense' && (
+                    <>
+                        <p className="text-xs text-slate-400 -mt-2">
+                            {newExpense.kind === 'refund'
+                                ? 'Dinero devuelto al grupo, como un tour cancelado o la fianza del hotel al salir. Resta del total y de lo que consumieron quienes compartían el gasto.'
+                                : 'Corrección a la baja, como un cobro de más o un descuento aplicado después. Resta del total sin que nadie reciba dinero.'}
+                        </p>
+                        <Select label="Gasto original (Opcional)" value={newExpense.refundOf} onChange={e => handleRefundOfChange(e.target.value)}>
+                            <option value="">Sin vincular</option>
+                            {refundableExpenses.map(exp => (
+                                <option key={exp.id} value={exp.id}>{formatDate(exp.date, { day: 'numeric', month: 'short' })} · {exp.description || getCategoryName(trip, exp.category)} · {formatCurrency(exp.amount, getExpenseCurrency(exp, trip))}</option>
+                            ))}
+                        </Select>
+                    </>
+                )}
+                <div className="grid grid-cols-2 gap-4">
+                    <Input label="Fecha" type="date" name="date" value={newExpense.date} onChange={handleInputChange} required />
+                    <Input label="Hasta (Opcional)" type="date" name="endDate" value={newExpense.endDate} min={newExpense.date} onChange={handleInputChange} />
+                </div>
+                {newExpense.endDate && newExpense.endDate > newExpense.date && (
+                    <p className="text-xs text-slate-400 -mt-2">Se repartirá en {getDaysInRange(newExpense.date, newExpense.endDate).length} días en el calendario (ej. noches de hotel o alquiler de coche). Para las cuentas sigue siendo un único pago.</p>
+                )}
+                <div className="grid grid-cols-3 gap-4">
+                    <div className="col-span-2">
+                        {itemizedSplit
+                            ? <Input label="Cantidad (suma de los conceptos)" type="text" value={itemizedTotal.toFixed(2)} readOnly disabled />
+                            : <Input label="Cantidad" type="text" name="amount" placeholder="0.00" value={String(newExpense.amount)} onChange={handleInputChange} required inputMode="decimal" />}
+                    </div>
+                    <Select label="Moneda" name="currency" value={newExpense.currency} onChange={handleInputChange}>
+                        {Array.from(new Set([baseCurrency, ...CURRENCIES])).map(code => <option key={code} value={code}>{code}</option>)}
+                    </Select>
+                </div>
                 <Select label="Categoría" name="category" value={newExpense.category} onChange={handleInputChange} required>
-                    {CATEGORIES.map(cat => <option key={cat} value={cat}>{cat}</option>)}
+                    {!categories.some(cat => cat.id === newExpense.category) && <option value={newExpense.category}>{getCategoryName(trip, newExpense.category)}</option>}
+                    {categories.map(cat => <option key={cat.id} value={cat.id}>{cat.name}</option>)}
                 </Select>
-                <Select label="Pagado por" name="paidBy" value={newExpense.paidBy} onChange={handleInputChange} required>
+                <Select label={newExpense.kind === 'refund' ? 'Recibido por' : newExpense.kind === 'adjustment' ? 'Pagado originalmente por' : 'Pagado por'} name="paidBy" value={newExpense.paidBy} onChange={handleInputChange} required>
                     <option value="" disabled>Selecciona participante</option>
-                    {trip.participants.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+                    {trip.participants.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                    {trip.kitty && <option value={KITTY_PAYER}>{getKittyName(trip)}</option>}
                 </Select>
                 <Input label="Descripción (Opcional)" type="text" name="description" placeholder="Ej: Cena en restaurante italiano" value={newExpense.description} onChange={handleInputChange} />
-                <Select label="Método de Pago (Opcional)" name="paymentMethod" value={newExpense.paymentMethod} onChange={handleInputChange}>
-                    <option value="">No especificar</option><option value="tarjeta">Tarjeta</option><option value="efectivo">Efectivo</option>
+                <TagInput tags={newExpense.tags} suggestions={usedTags} onChange={tags => setNewExpense(prev => ({ ...prev, tags }))} />
+                <Select label="Cuenta de Pago (Opcional)" name="paymentMethod" value={newExpense.paymentMethod} onChange={handleInputChange}>
+                    <option value="">No especificar</option>
+                    {paymentAccounts.map(acc => <option key={acc.id} value={acc.id}>{acc.name}</option>)}
+                    {newExpense.paymentMethod && !paymentAccounts.some(acc => acc.id === newExpense.paymentMethod) && <option value={newExpense.paymentMethod}>{getPaymentAccountName(trip, newExpense.paymentMethod)}</option>}
                 </Select>
+                <ExpenseSplitEditor
+                    participants={trip.participants}
+                    absent={trip.participants.map(p => p.id).filter(id => newExpense.date && !getPresentIds(newExpense.date, newExpense.endDate || undefined).includes(id))}
+                    mode={newExpense.splitMode}
+                    selected={newExpense.splitParticipants}
+                    values={newExpense.splitValues}
+                    currency={newExpense.currency}
+                    onChange={(splitMode, splitParticipants, splitValues) => setNewExpense(prev => ({ ...prev, splitMode, splitParticipants, splitValues }))}
+                />
+                {newExpense.splitMode === 'items' && (
+                    <ItemizedSplitEditor
+                        participants={trip.participants}
+                        form={newExpense}
+                        currency={newExpense.currency}
+                        onChange={changes => setNewExpense(prev => ({ ...prev, ...changes }))}
+                    />
+                )}
                 <div>
                     <Input label="Comprobante (Foto/Imagen Opcional)" type="file" name="proofImageFile" id="proofImageFile" accept="image/*" onChange={handleInputChange} ref={proofImageInputRef} />
                     {proofImagePreviewUrl && (
@@ -915,9 +1442,45 @@ const GastosView: React.FC = () => {
                             <Button type="button" variant="danger" size="sm" onClick={handleRemoveProofImage} className="absolute -top-2 -right-2 p-1 rounded-full text-xs" aria-label="Eliminar imagen"><XMarkIcon className="w-3 h-3"/></Button>
                         </div>
                     )}
+                    {newExpense.proofImage && (
+                        <div className="mt-2 space-y-2">
+                            <Button type="button" variant="secondary" size="sm" onClick={handleScanReceipt} disabled={ocrProgress !== null}>
+                                {ocrProgress !== null ? `Leyendo comprobante… ${Math.round(ocrProgress * 100)}%` : newExpense.receiptText ? 'Volver a leer el comprobante' : 'Leer datos del comprobante'}
+                            </Button>
+                            {receiptSuggestion && (
+                                <div className="p-3 bg-slate-700/50 rounded-md text-sm space-y-1">
+                                    {Object.keys(receiptSuggestion).length === 0 ? (
+                                        <p className="text-slate-300">No se han reconocido datos en el comprobante.</p>
+                                    ) : (
+                                        <>
+                                            <p className="text-slate-300 font-medium">Datos detectados:</p>
+                                            {receiptSuggestion.amount !== undefined && <p className="text-slate-200">Cantidad: {receiptSuggestion.amount.toFixed(2)}</p>}
+                                            {receiptSuggestion.date && <p className="text-slate-200">Fecha: {formatDate(receiptSuggestion.date)}</p>}
+                                            {receiptSuggestion.description && <p className="text-slate-200">Descripción: {receiptSuggestion.description}</p>}
+                                            {receiptSuggestion.category && <p className="text-slate-200">Categoría: {getCategoryName(trip, receiptSuggestion.category)}</p>}
+                                            <div className="flex space-x-3 pt-1">
+                                                <Button type="button" size="sm" onClick={handleApplyReceiptSuggestion}>Usar estos datos</Button>
+                                                <Button type="button" variant="link" size="sm" className="p-0" onClick={() => setReceiptSuggestion(null)}>Descartar</Button>
+                                            </div>
+                                        </>
+                                    )}
+                                </div>
+                            )}
+                            {newExpense.receiptText && (
+                                <details className="text-xs text-slate-400">
+                                    <summary className="cursor-pointer">Texto reconocido</summary>
+                                    <pre className="mt-1 whitespace-pre-wrap font-sans">{newExpense.receiptText}</pre>
+                                </details>
+                            )}
+                            <p className="text-xs text-slate-500">El comprobante se procesa en este dispositivo, sin enviarse a ningún servidor.</p>
+                        </div>
+                    )}
                 </div>
                 {formError && <p className="text-sm text-red-400">{formError}</p>}
-                <Button type="submit" className="w-full">Añadir Gasto</Button>
+                <div className="flex space-x-3">
+                    {editingExpenseId && <Button type="button" variant="secondary" className="flex-1" onClick={() => { resetExpenseForm(); setCurrentSubView('list'); }}>Cancelar</Button>}
+                    <Button type="submit" className="flex-1">{editingExpenseId ? 'Guardar Cambios' : 'Añadir Gasto'}</Button>
+                </div>
             </form>
         </Card>
       )}
@@ -927,30 +1490,50 @@ const GastosView: React.FC = () => {
                 <Card className="text-center py-10">
                     <CurrencyEuroIcon className="w-16 h-16 text-slate-600 mx-auto mb-3"/>
                     <p className="text-slate-300">Aún no hay gastos registrados.</p>
-                    <Button onClick={() => setCurrentSubView('add')} className="mt-4">Añadir Primer Gasto</Button>
+                    {!isReadOnly && <Button onClick={() => setCurrentSubView('add')} className="mt-4">Añadir Primer Gasto</Button>}
                 </Card>
             ) : (
-                expenses.map(exp => (
-                    <Card key={exp.id} className="flex flex-col sm:flex-row items-start justify-between">
-                        <div className="flex items-center space-x-3 mb-2 sm:mb-0 flex-grow">
-                            <div className={`p-2 rounded-full text-white ${CATEGORY_DETAILS[exp.category]?.color || 'bg-slate-500'}`}>
-                                {React.cloneElement(CATEGORY_DETAILS[exp.category]?.icon as React.ReactElement<any>, { className: "w-5 h-5" })}
-                            </div>
-                            <div>
-                                <p className="font-semibold text-slate-100">{exp.description || exp.category}</p>
-                                <p className="text-xs text-slate-400">
-                                    {formatDate(exp.date)} por {exp.paidBy}
-                                    {exp.paymentMethod && <span className="ml-1">({exp.paymentMethod === 'tarjeta' ? 'Tarjeta' : 'Efectivo'})</span>}
+                <>
+                    <ExpenseListToolbar
+                        participants={trip.participants}
+                        kittyName={trip.kitty ? getKittyName(trip) : undefined}
+                        categories={categories}
+                        paymentAccounts={paymentAccounts}
+                        tags={usedTags}
+                        filters={listFilters}
+                        onFiltersChange={setListFilters}
+                        sortKey={listSortKey}
+                        onSortKeyChange={setListSortKey}
+                        groupKey={listGroupKey}
+                        onGroupKeyChange={setListGroupKey}
+                    />
+                    <div className="flex flex-wrap justify-between items-center gap-2">
+                        <p className="text-sm text-slate-400">
+                            Mostrando {filteredExpenses.length} de {expenses.length} {expenses.length === 1 ? 'gasto' : 'gastos'} · Total {formatBase(filteredTotal)}
+                        </p>
+                        <div className="flex items-center space-x-2">
+                            <span className="text-xs text-slate-500">Exportar:</span>
+                            <Button variant="secondary" size="sm" onClick={() => handleExportData('csv')}>CSV</Button>
+                            <Button variant="secondary" size="sm" onClick={() => handleExportData('json')}>JSON</Button>
+                            <Button variant="secondary" size="sm" onClick={() => handleExportData('xlsx')}>Excel</Button>
+                        </div>
+                    </div>
+                    {filteredExpenses.length === 0 && (
+                        <Card className="text-center py-6"><p className="text-slate-400">Ningún gasto coincide con la búsqueda o los filtros.</p></Card>
+                    )}
+                    {listGroupKey === 'none' ? filteredExpenses.map(renderExpenseItem) : expenseGroups.map((group, index) => (
+                        <div key={group.key} className="space-y-3">
+                            <div className="flex justify-between items-baseline border-b border-slate-700 pb-1 pt-2">
+                                <h3 className="text-md font-semibold text-teal-400">{listGroupKey === 'day' ? formatDate(group.key, { weekday: 'long', day: 'numeric', month: 'long' }) : listGroupKey === 'category' ? getCategoryName(trip, group.key) : group.key}</h3>
+                                <p className="text-sm text-slate-300">
+                                    {formatBase(group.subtotal)}
+                                    <span className="text-xs text-slate-500 ml-2">acumulado {formatBase(expenseGroups.slice(0, index + 1).reduce((sum, g) => sum + g.subtotal, 0))}</span>
                                 </p>
-                                {exp.proofImage && <img src={exp.proofImage} alt="Comprobante" className="mt-1 w-16 h-16 object-cover rounded-md border border-slate-600" />}
                             </div>
+                            {group.expenses.map(renderExpenseItem)}
                         </div>
-                        <div className="text-right flex-shrink-0 mt-2 sm:mt-0">
-                            <p className="font-semibold text-lg text-slate-100">{formatCurrency(exp.amount)}</p>
-                            <Button onClick={() => deleteExpense(exp.id)} variant="ghost" size="sm" className="text-red-400 hover:text-red-500 p-1 mt-1" aria-label="Eliminar gasto"><TrashIcon className="w-4 h-4"/></Button>
-                        </div>
-                    </Card>
-                ))
+                    ))}
+                </>
             )}
         </div>
       )}
@@ -958,45 +1541,131 @@ const GastosView: React.FC = () => {
           <div className="space-y-6">
             <Card>
                 <h2 className="text-xl font-semibold text-slate-100 mb-3">Resumen General</h2>
-                <p className="text-3xl font-bold text-teal-400">{formatCurrency(totalTripCost)}</p>
+                <p className="text-3xl font-bold text-teal-400">{formatBase(totalTripCost)}</p>
                 <p className="text-sm text-slate-400">Total gastado en {expenses.length} {expenses.length === 1 ? 'gasto' : 'gastos'}.</p>
+                {missingRateCurrencies.length > 0 && (
+                    <p className="text-sm text-amber-400 mt-2">Faltan tipos de cambio para {missingRateCurrencies.join(', ')}: esos gastos se suman sin convertir.</p>
+                )}
             </Card>
+            <BudgetCard trip={trip} baseExpenses={baseExpenses} expensesByCategory={expensesByCategory} totalTripCost={totalTripCost} currency={baseCurrency} readOnly={isReadOnly} onSave={updateTrip} />
+            {!isReadOnly && (
+              <>
+                <CurrencySettingsCard trip={trip} usedCurrencies={Array.from(new Set(expenses.map(exp => getExpenseCurrency(exp, trip))))} onSave={updateTrip} />
+                <CategorySettingsCard trip={trip} expenses={expenses} onSave={updateTrip} onReassignExpense={(exp, categoryId) => updateExpense({ ...exp, category: categoryId })} />
+                <PaymentAccountsCard trip={trip} expenses={expenses} onSave={updateTrip} onClearExpenseAccount={exp => updateExpense({ ...exp, paymentMethod: undefined })} />
+              </>
+            )}
+            <KittyCard trip={trip} baseExpenses={baseExpenses} formatAmount={formatBase} readOnly={isReadOnly} onSave={updateTrip} onShowExpenses={() => { setListFilters({ ...EMPTY_EXPENSE_FILTERS, paidBy: KITTY_PAYER }); setCurrentSubView('list'); }} />
             <Card>
                 <h2 className="text-xl font-semibold text-slate-100 mb-4">Por Categoría</h2>
                 <div className="space-y-2">
-                    {CATEGORIES.map(cat => expensesByCategory[cat] > 0 && (
-                        <div key={cat} className="flex justify-between items-center">
-                            <div className="flex items-center space-x-2">
-                                <span className={`p-1.5 rounded-full text-white text-xs ${CATEGORY_DETAILS[cat]?.color || 'bg-slate-500'}`}>{React.cloneElement(CATEGORY_DETAILS[cat]?.icon as React.ReactElement<any>, { className: "w-4 h-4" })}</span>
-                                <span className="text-slate-200">{cat}</span>
+                    {Object.entries(expensesByCategory).filter(([, amount]) => amount > 0).map(([categoryId, amount]) => {
+                        const category = getCategory(trip, categoryId);
+                        return (
+                            <div key={categoryId} className="flex justify-between items-center">
+                                <div className="flex items-center space-x-2">
+                                    <span className={`p-1.5 rounded-full text-white text-xs ${category.color}`}>{React.cloneElement(CATEGORY_ICONS[category.icon] as React.ReactElement<any>, { className: "w-4 h-4" })}</span>
+                                    <span className="text-slate-200">{category.name}</span>
+                                </div>
+                                <span className="font-medium text-slate-100">{formatBase(amount)}</span>
+                            </div>
+                        );
+                    })}
+                    {Object.values(expensesByCategory).every(v => v === 0) && <p className="text-slate-400">No hay gastos para mostrar.</p>}
+                </div>
+            </Card>
+            {paymentAccountTotals.length > 0 && (
+              <Card>
+                <h2 className="text-xl font-semibold text-slate-100 mb-4">Por Cuenta de Pago</h2>
+                <div className="space-y-2">
+                    {paymentAccountTotals.map(({ account, total, count, foreignTotal, fees }) => (
+                        <div key={account.id} className="flex justify-between items-start">
+                            <div>
+                                <button type="button" className="text-teal-400 hover:text-teal-300 hover:underline text-left" title="Ver estos gastos en la lista"
+                                    onClick={() => { setListFilters({ ...EMPTY_EXPENSE_FILTERS, paymentMethod: account.id }); setCurrentSubView('list'); }}>
+                                    {account.name} <span className="text-xs text-slate-400">({count})</span>
+                                </button>
+                                {foreignTotal > 0 && (
+                                    <p className="text-xs text-slate-400">
+                                        {formatBase(foreignTotal)} en otra moneda{fees > 0 && ` · comisiones estimadas ${formatBase(fees)} (${account.foreignFeePercent}%)`}
+                                    </p>
+                                )}
                             </div>
-                            <span className="font-medium text-slate-100">{formatCurrency(expensesByCategory[cat])}</span>
+                            <span className="font-medium text-slate-100">{formatBase(total)}</span>
+                        </div>
+                    ))}
+                </div>
+            </Card>
+            )}
+            {totalsByTag.length > 0 && (
+              <Card>
+                <h2 className="text-xl font-semibold text-slate-100 mb-4">Por Etiqueta</h2>
+                <div className="space-y-2">
+                    {totalsByTag.map(({ tag, total, count }) => (
+                        <div key={tag} className="flex justify-between items-center">
+                            <button type="button" className="text-teal-400 hover:text-teal-300 hover:underline text-left" title="Ver estos gastos en la lista"
+                                onClick={() => { setListFilters({ ...EMPTY_EXPENSE_FILTERS, tag }); setCurrentSubView('list'); }}>
+                                #{tag} <span className="text-xs text-slate-400">({count})</span>
+                            </button>
+                            <span className="font-medium text-slate-100">{formatBase(total)}</span>
                         </div>
                     ))}
-                    {Object.values(expensesByCategory).every(v => v === 0) && <p className="text-slate-400">No hay gastos para mostrar.</p>}
                 </div>
             </Card>
-            {chartDataByCategory.data.length > 0 && (
-              <Card><CategoryBarChart labels={chartDataByCategory.labels} data={chartDataByCategory.data} backgroundColors={chartDataByCategory.backgroundColors} title="Gráfico de Barras por Categoría"/></Card>
             )}
+            {tripCharts.map(chart => <Card key={chart.kind}><TripChart chart={chart} /></Card>)}
             <Card>
                 <h2 className="text-xl font-semibold text-slate-100 mb-4">Pagos por Participante</h2>
+                {trip.kitty && <p className="text-xs text-slate-400 -mt-3 mb-3">Incluye la parte de cada uno de lo pagado desde {getKittyName(trip)}.</p>}
                 <div className="space-y-2">
-                    {Object.entries(expensesByParticipant).map(([name, amount]) => (
-                         <div key={name} className="flex justify-between items-center">
-                             <span className="text-slate-200">{name}</span>
-                             <span className="font-medium text-slate-100">{formatCurrency(amount)}</span>
+                    {Object.entries(expensesByParticipant).map(([id, amount]) => (
+                         <div key={id} className="flex justify-between items-center">
+                             <span className="text-slate-200">{getParticipantName(trip, id)}</span>
+                             <span className="font-medium text-slate-100">{formatBase(amount)}</span>
                          </div>
                     ))}
                 </div>
             </Card>
+            <Card>
+                <h2 className="text-xl font-semibold text-slate-100 mb-4">Balance por Participante</h2>
+                <div className="space-y-2">
+                    {trip.participants.map(p => {
+                        const paid = expensesByParticipant[p.id] || 0;
+                        const share = sharesByParticipant[p.id] || 0;
+                        const transferred = transferBalances[p.id] || 0;
+                        const balance = paid - share + transferred;
+                        const absence = absenceSummaries[p.id];
+                        return (
+                            <div key={p.id} className="flex justify-between items-center">
+                                <div>
+                                    <span className="text-slate-200">{p.name}</span>
+                                    <p className="text-xs text-slate-400">
+                                        Pagado {formatBase(paid)} · Consumido {formatBase(share)}
+                                        {Math.abs(transferred) > 0.005 && <> · {transferred > 0 ? 'Reembolsado' : 'Recibido'} {formatBase(Math.abs(transferred))}</>}
+                                    </p>
+                                    {absence && absence.count > 0 && (
+                                        <p className="text-xs text-slate-500">
+                                            {describePresence(p, date => formatDate(date, { day: 'numeric', month: 'short' }))}: no comparte {absence.count} {absence.count === 1 ? 'gasto común' : 'gastos comunes'} de días en que no estaba{absence.amount > 0.005 && ` (${formatBase(absence.amount)} menos)`}.
+                                        </p>
+                                    )}
+                                </div>
+                                <span className={`font-medium ${balance > 0.005 ? 'text-sky-400' : balance < -0.005 ? 'text-amber-400' : 'text-slate-100'}`}>{formatBase(balance)}</span>
+                            </div>
+                        );
+                    })}
+                </div>
+            </Card>
             {trip.participants.length > 1 && settledPayments.length > 0 && ( 
                 <Card> 
                     <h2 className="text-xl font-semibold text-slate-100 mb-4">Saldar Cuentas</h2>
                     <div className="space-y-2">
                         {settledPayments.map((payment, index) => (
-                            <div key={index} className="text-sm text-slate-200">
-                                <span className="font-semibold text-amber-400">{payment.from}</span> debe pagar a <span className="font-semibold text-sky-400">{payment.to}</span>: <span className="font-bold text-teal-300">{formatCurrency(payment.amount)}</span>
+                            <div key={index} className="text-sm text-slate-200 flex justify-between items-center">
+                                <div>
+                                    <span className="font-semibold text-amber-400">{getParticipantName(trip, payment.from)}</span> debe pagar a <span className="font-semibold text-sky-400">{getParticipantName(trip, payment.to)}</span>: <span className="font-bold text-teal-300">{formatBase(payment.amount)}</span>
+                                    {payment.breaksPreference && <p className="text-xs text-amber-300">No se ha encontrado otra forma de saldar esta deuda sin que se paguen directamente.</p>}
+                                </div>
+                                {!isReadOnly && <Button variant="link" size="sm" className="p-0 text-xs flex-shrink-0 ml-2" onClick={() => addSettlementTransfer({ from: payment.from, to: payment.to, amount: payment.amount, date: new Date().toISOString().split('T')[0] })}>Marcar como pagado</Button>}
                             </div>
                         ))}
                     </div>
@@ -1005,136 +1674,1426 @@ const GastosView: React.FC = () => {
             {trip.participants.length > 1 && settledPayments.length === 0 && expenses.length > 0 && (
                 <Card><p className="text-slate-300">Todas las cuentas están saldadas o no hay suficientes participantes para calcular.</p></Card>
             )}
+            {trip.participants.length > 1 && <ParticipantPresenceCard trip={trip} readOnly={isReadOnly} onSave={updateTrip} />}
+            {trip.participants.length > 2 && !isReadOnly && <SettlementPreferencesCard trip={trip} onSave={updateTrip} />}
+            {trip.participants.length > 1 && (
+                <SettlementLedgerCard
+                    participants={trip.participants}
+                    transfers={settlementTransfers}
+                    totalTransferred={totalTransferred}
+                    totalOutstanding={totalOutstanding}
+                    formatAmount={formatBase}
+                    readOnly={isReadOnly}
+                    onAdd={addSettlementTransfer}
+                    onDelete={deleteSettlementTransfer}
+                />
+            )}
             <Button onClick={handleExportPDF} variant="secondary" className="w-full mt-4">Exportar Resumen a PDF</Button>
         </div>
       )}
-      {currentSubView === 'calendar' && <GastosCalendarView expenses={expenses} />}
+      {currentSubView === 'import' && <StatementImportView onDone={() => setCurrentSubView('list')} />}
+      {currentSubView === 'calendar' && <GastosCalendarView expenses={baseExpenses} currency={baseCurrency} />}
     </div>
   );
 };
 
-// --- Calendar View for Gastos ---
-const GastosCalendarView: React.FC<{ expenses: Expense[] }> = ({ expenses }) => {
-  const [currentMonth, setCurrentMonth] = useState(new Date());
-  const [selectedDateExpenses, setSelectedDateExpenses] = useState<Expense[] | null>(null);
-  const [selectedDateKey, setSelectedDateKey] = useState<string | null>(null);
-
-
-  const expensesByDate = useMemo(() => {
-    const map = new Map<string, Expense[]>();
-    expenses.forEach(exp => {
-      const dateKey = exp.date; // YYYY-MM-DD
-      if (!map.has(dateKey)) map.set(dateKey, []);
-      map.get(dateKey)!.push(exp);
-    });
-    return map;
-  }, [expenses]);
-
-  const changeMonth = (offset: number) => {
-    setCurrentMonth(prev => new Date(prev.getFullYear(), prev.getMonth() + offset, 1));
-    setSelectedDateExpenses(null);
-    setSelectedDateKey(null);
+// --- Tag Input for Gastos ---
+interface TagInputProps {
+  tags: string[];
+  suggestions: string[]; // Tags already used in the trip
+  onChange: (tags: string[]) => void;
+}
+const TagInput: React.FC<TagInputProps> = ({ tags, suggestions, onChange }) => {
+  const [draft, setDraft] = useState('');
+
+  const addTag = (value: string) => {
+    const tag = normalizeTag(value);
+    setDraft('');
+    if (!tag || tags.some(t => t.toLowerCase() === tag.toLowerCase())) return;
+    // Reuse the existing spelling so "Trabajo" and "trabajo" end up as the same tag
+    onChange([...tags, suggestions.find(s => s.toLowerCase() === tag.toLowerCase()) || tag]);
+  };
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') { e.preventDefault(); addTag(draft); }
+    else if (e.key === 'Backspace' && !draft && tags.length > 0) onChange(tags.slice(0, -1));
   };
 
-  const today = new Date().toISOString().split('T')[0];
-
-  const renderCalendarDays = () => {
-    const year = currentMonth.getFullYear();
-    const month = currentMonth.getMonth();
-    const firstDayOfMonth = new Date(year, month, 1).getDay(); // 0 (Sun) - 6 (Sat)
-    const daysInMonth = new Date(year, month + 1, 0).getDate();
-    const daysArray = [];
-
-    const normalizedFirstDay = (firstDayOfMonth === 0) ? 6 : firstDayOfMonth -1;
-
-    for (let i = 0; i < normalizedFirstDay; i++) {
-      daysArray.push(<div key={`empty-${i}`} className="border border-slate-700 p-2 h-24"></div>);
-    }
-
-    for (let day = 1; day <= daysInMonth; day++) {
-      const dateStr = `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
-      const hasExpenses = expensesByDate.has(dateStr);
-      const isToday = dateStr === today;
-      const isSelected = dateStr === selectedDateKey;
-
-
-      daysArray.push(
-        <div 
-          key={day} 
-          className={`border border-slate-700 p-2 h-24 flex flex-col cursor-pointer hover:bg-slate-700 relative transition-colors ${isToday ? 'bg-teal-900/70' : ''} ${isSelected ? 'ring-2 ring-teal-500 bg-slate-700' : ''}`}
-          onClick={() => {
-            setSelectedDateExpenses(expensesByDate.get(dateStr) || []); 
-            setSelectedDateKey(dateStr);
-          }}
-          role="button"
-          tabIndex={0}
-          aria-label={`Ver gastos del ${day} de ${currentMonth.toLocaleDateString('es-ES', { month: 'long' })}`}
-        >
-          <span className={`font-medium ${isToday ? 'text-teal-300' : 'text-slate-200'}`}>{day}</span>
-          {hasExpenses && <span className="mt-auto self-center w-2 h-2 bg-green-500 rounded-full" title="Hay gastos este día"></span>}
+  return (
+    <div>
+      <Input label="Etiquetas (Opcional)" type="text" list="expense-tag-suggestions" placeholder="Ej: trabajo, cumpleaños de Ana" value={draft}
+        onChange={e => setDraft(e.target.value)} onKeyDown={handleKeyDown} onBlur={() => draft && addTag(draft)} />
+      <datalist id="expense-tag-suggestions">
+        {suggestions.filter(s => !tags.some(t => t.toLowerCase() === s.toLowerCase())).map(s => <option key={s} value={s} />)}
+      </datalist>
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-2 mt-2">
+          {tags.map(tag => (
+            <span key={tag} className="flex items-center px-2 py-1 rounded-full bg-slate-700 text-sm text-slate-200">
+              #{tag}
+              <button type="button" onClick={() => onChange(tags.filter(t => t !== tag))} className="ml-1 text-slate-400 hover:text-red-400" aria-label={`Quitar etiqueta ${tag}`}>
+                <XMarkIcon className="w-4 h-4" />
+              </button>
+            </span>
+          ))}
         </div>
-      );
-    }
-    return daysArray;
-  };
-  
-  const formatCurrency = (amount: number) => new Intl.NumberFormat('es-ES', { style: 'currency', currency: 'EUR' }).format(amount);
+      )}
+    </div>
+  );
+};
 
+// --- List Toolbar for Gastos ---
+interface ExpenseListToolbarProps {
+  participants: Participant[];
+  kittyName?: string; // Offered as a payer when the trip has a kitty
+  categories: TripCategory[];
+  paymentAccounts: PaymentAccount[];
+  tags: string[];
+  filters: ExpenseFilters;
+  onFiltersChange: (filters: ExpenseFilters) => void;
+  sortKey: ExpenseSortKey;
+  onSortKeyChange: (sortKey: ExpenseSortKey) => void;
+  groupKey: ExpenseGroupKey;
+  onGroupKeyChange: (groupKey: ExpenseGroupKey) => void;
+}
+const ExpenseListToolbar: React.FC<ExpenseListToolbarProps> = ({ participants, kittyName, categories, paymentAccounts, tags, filters, onFiltersChange, sortKey, onSortKeyChange, groupKey, onGroupKeyChange }) => {
+  const [showFilters, setShowFilters] = useState(false);
+  const activeFilterCount = countActiveFilters({ ...filters, query: '' });
+  const handleFilterChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    onFiltersChange({ ...filters, [e.target.name]: e.target.value });
+  };
 
   return (
-    <Card>
-      <div className="flex justify-between items-center mb-4">
-        <Button variant="ghost" onClick={() => changeMonth(-1)} iconLeft={<ChevronLeftIcon className="w-5 h-5" />} aria-label="Mes anterior"/>
-        <h3 className="text-lg font-semibold text-slate-100">
-          {currentMonth.toLocaleDateString('es-ES', { month: 'long', year: 'numeric' })}
-        </h3>
-        <Button variant="ghost" onClick={() => changeMonth(1)} iconLeft={<ChevronRightIcon className="w-5 h-5" />} aria-label="Mes siguiente"/>
+    <Card className="space-y-3">
+      <div className="flex space-x-2">
+        <Input type="search" name="query" placeholder="Buscar por descripción o texto del ticket..." value={filters.query} onChange={handleFilterChange} aria-label="Buscar gastos" />
+        <Button type="button" variant="secondary" onClick={() => setShowFilters(s => !s)} iconLeft={<MagnifyingGlassIcon className="w-5 h-5"/>}>
+          Filtros{activeFilterCount > 0 ? ` (${activeFilterCount})` : ''}
+        </Button>
       </div>
-      <div className="grid grid-cols-7 gap-px bg-slate-700">
-        {['Lun', 'Mar', 'Mié', 'Jue', 'Vie', 'Sáb', 'Dom'].map(day => (
-          <div key={day} className="text-center font-medium text-slate-400 p-2 bg-slate-800 text-xs">{day}</div>
-        ))}
-        {renderCalendarDays()}
+      <div className="grid grid-cols-2 gap-4">
+        <Select label="Ordenar" value={sortKey} onChange={e => onSortKeyChange(e.target.value as ExpenseSortKey)}>
+          {(Object.keys(EXPENSE_SORT_LABELS) as ExpenseSortKey[]).map(key => <option key={key} value={key}>{EXPENSE_SORT_LABELS[key]}</option>)}
+        </Select>
+        <Select label="Agrupar" value={groupKey} onChange={e => onGroupKeyChange(e.target.value as ExpenseGroupKey)}>
+          {(Object.keys(EXPENSE_GROUP_LABELS) as ExpenseGroupKey[]).map(key => <option key={key} value={key}>{EXPENSE_GROUP_LABELS[key]}</option>)}
+        </Select>
       </div>
-      {selectedDateExpenses && selectedDateKey && (
-        <div className="mt-4 p-4 bg-slate-700/50 rounded-md">
-          <h4 className="text-md font-semibold text-slate-100 mb-2">
-            Gastos para {formatDate(selectedDateKey, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}:
-          </h4>
-          {selectedDateExpenses.length > 0 ? (
-            <ul className="space-y-2">
-              {selectedDateExpenses.map(exp => (
-                <li key={exp.id} className="text-sm text-slate-300 flex justify-between">
-                  <span>{exp.description || exp.category} (por {exp.paidBy})</span>
-                  <span className="font-medium text-slate-100">{formatCurrency(exp.amount)}</span>
-                </li>
-              ))}
-            </ul>
-          ) : (
-            <p className="text-slate-400 text-sm">No hay gastos registrados para este día.</p>
-          )}
-           <Button variant="link" size="sm" onClick={() => {setSelectedDateExpenses(null); setSelectedDateKey(null);}} className="mt-2 text-xs">Cerrar</Button>
+      {showFilters && (
+        <div className="space-y-3 border-t border-slate-700 pt-3">
+          <div className="grid grid-cols-2 gap-4">
+            <Select label="Categoría" name="category" value={filters.category} onChange={handleFilterChange}>
+              <option value="">Todas</option>
+              {categories.map(cat => <option key={cat.id} value={cat.id}>{cat.name}</option>)}
+            </Select>
+            <Select label="Pagado por" name="paidBy" value={filters.paidBy} onChange={handleFilterChange}>
+              <option value="">Todos</option>
+              {participants.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+              {kittyName && <option value={KITTY_PAYER}>{kittyName}</option>}
+            </Select>
+            <Select label="Cuenta de pago" name="paymentMethod" value={filters.paymentMethod} onChange={handleFilterChange}>
+              <option value="">Todas</option>
+              {paymentAccounts.map(acc => <option key={acc.id} value={acc.id}>{acc.name}</option>)}
+              <option value="none">Sin especificar</option>
+            </Select>
+            <Select label="Etiqueta" name="tag" value={filters.tag} onChange={handleFilterChange}>
+              <option value="">Todas</option>
+              {tags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+            </Select>
+            <Input label="Desde" type="date" name="dateFrom" value={filters.dateFrom} onChange={handleFilterChange} />
+            <Input label="Hasta" type="date" name="dateTo" value={filters.dateTo} onChange={handleFilterChange} />
+            <Input label="Cantidad mínima" type="text" inputMode="decimal" name="minAmount" placeholder="0.00" value={filters.minAmount} onChange={handleFilterChange} />
+            <Input label="Cantidad máxima" type="text" inputMode="decimal" name="maxAmount" placeholder="0.00" value={filters.maxAmount} onChange={handleFilterChange} />
+          </div>
+          <Button type="button" variant="link" size="sm" className="p-0 text-xs" onClick={() => onFiltersChange(EMPTY_EXPENSE_FILTERS)}>Limpiar filtros</Button>
         </div>
       )}
-       {!selectedDateKey && expensesByDate.size > 0 && <p className="text-xs text-slate-400 mt-2">Haz clic en un día para ver los gastos.</p>}
-       {!selectedDateKey && expensesByDate.size === 0 && <p className="text-xs text-slate-400 mt-2">No hay gastos en el mes actual.</p>}
     </Card>
   );
 };
 
+// --- Split Editor for Gastos ---
+interface ExpenseSplitEditorProps {
+  participants: Participant[];
+  absent?: string[]; // Ids of participants not on the trip on the expense's dates, flagged next to their name
+  mode: ExpenseSplitMode;
+  selected: string[];
+  values: Record<string, string>;
+  currency: string;
+  onChange: (mode: ExpenseSplitMode, selected: string[], values: Record<string, string>) => void;
+}
+const ExpenseSplitEditor: React.FC<ExpenseSplitEditorProps> = ({ participants, absent = [], mode, selected, values, currency, onChange }) => {
+  const toggleParticipant = (id: string) => {
+    const nextSelected = selected.includes(id) ? selected.filter(other => other !== id) : [...selected, id];
+    onChange(mode, participants.map(p => p.id).filter(other => nextSelected.includes(other)), values);
+  };
+  const valueSuffix = mode === 'percentages' ? '%' : mode === 'exact' ? currency : '';
 
-// --- RECUERDOS Section ---
-const RecuerdosView: React.FC = () => {
-  const { trip, mediaItems, addMediaItem, deleteMediaItem, currentUser } = useActiveTrip();
-  const [file, setFile] = useState<File | null>(null);
-  const [description, setDescription] = useState('');
-  const [preview, setPreview] = useState<string | null>(null);
-  const fileInputRef = useRef<HTMLInputElement>(null);
-
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const selectedFile = e.target.files[0];
-      setFile(selectedFile);
+  return (
+    <div className="border border-slate-700 rounded-md p-3 space-y-3">
+      <Select label="Reparto" value={mode} onChange={e => onChange(e.target.value as ExpenseSplitMode, selected, {})}>
+        {(Object.keys(SPLIT_MODE_LABELS) as ExpenseSplitMode[]).map(m => <option key={m} value={m}>{SPLIT_MODE_LABELS[m]}</option>)}
+      </Select>
+      {mode === 'items' ? (
+        <p className="text-xs text-slate-400">Cada concepto se reparte entre quienes lo consumieron; impuestos, propina y descuento se reparten en proporción a lo de cada uno.</p>
+      ) : (
+        <div className="space-y-2">
+          {participants.map(p => {
+            const isSelected = selected.includes(p.id);
+            return (
+              <div key={p.id} className="flex items-center space-x-3">
+                <label className="flex items-center space-x-2 cursor-pointer flex-grow">
+                  <input type="checkbox" checked={isSelected} onChange={() => toggleParticipant(p.id)} className="h-4 w-4 text-teal-500 rounded border-slate-500 bg-slate-700 focus:ring-teal-400" />
+                  <span className="text-sm text-slate-200">{p.name}</span>
+                  {absent.includes(p.id) && <span className="text-xs text-slate-500">no está en estas fechas</span>}
+                </label>
+                {mode !== 'equal' && isSelected && (
+                  <div className="flex items-center space-x-1 w-32">
+                    <Input type="text" inputMode="decimal" placeholder="0" value={values[p.id] || ''} onChange={e => onChange(mode, selected, { ...values, [p.id]: e.target.value })} aria-label={`Reparto de ${p.name}`} />
+                    {valueSuffix && <span className="text-xs text-slate-400">{valueSuffix}</span>}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+      {mode !== 'items' && selected.length === 0 && <p className="text-xs text-amber-400">Nadie seleccionado: el gasto no se podrá guardar.</p>}
+    </div>
+  );
+};
+
+// --- Itemised Bill Editor for Gastos ---
+interface LineItemForm {
+  id: string;
+  description: string;
+  amount: string;
+  participants: string[];
+}
+interface ItemizedSplitForm {
+  splitItems: LineItemForm[];
+  splitTax: string;
+  splitTip: string;
+  splitDiscount: string;
+}
+const parseOptionalAmount = (value: string): number | undefined => value.trim() === '' ? undefined : parseFloat(value.trim().replace(',', '.'));
+const buildItemizedSplit = (form: ItemizedSplitForm): ExpenseSplit => {
+  const items = form.splitItems.map(item => ({ ...item, description: item.description.trim(), amount: parseFloat(item.amount.trim().replace(',', '.')) }));
+  return {
+    mode: 'items',
+    participants: Array.from(new Set(items.flatMap(item => item.participants))),
+    items,
+    tax: parseOptionalAmount(form.splitTax),
+    tip: parseOptionalAmount(form.splitTip),
+    discount: parseOptionalAmount(form.splitDiscount),
+  };
+};
+
+interface ItemizedSplitEditorProps {
+  participants: Participant[];
+  form: ItemizedSplitForm;
+  currency: string;
+  onChange: (changes: Partial<ItemizedSplitForm>) => void;
+}
+const ItemizedSplitEditor: React.FC<ItemizedSplitEditorProps> = ({ participants, form, currency, onChange }) => {
+  const items = form.splitItems;
+  const updateItem = (id: string, changes: Partial<LineItemForm>) => onChange({ splitItems: items.map(item => item.id === id ? { ...item, ...changes } : item) });
+  const toggleItemParticipant = (item: LineItemForm, id: string) => {
+    const next = item.participants.includes(id) ? item.participants.filter(other => other !== id) : [...item.participants, id];
+    updateItem(item.id, { participants: participants.map(p => p.id).filter(other => next.includes(other)) });
+  };
+  const split = buildItemizedSplit(form);
+  const subtotal = getItemsSubtotal(split);
+  const total = getItemizedTotal(split);
+  const preview = !isNaN(total) && total > 0 && !validateExpenseSplit(split, total) ? getExpenseShares({ amount: total, split }, participants) : null;
+  const format = (amount: number) => formatCurrency(isNaN(amount) ? 0 : amount, currency);
+
+  return (
+    <div className="border border-slate-700 rounded-md p-3 space-y-3">
+      {items.map((item, index) => (
+        <div key={item.id} className="space-y-2 pb-3 border-b border-slate-700">
+          <div className="flex items-center space-x-2">
+            <Input type="text" placeholder={`Concepto ${index + 1}`} value={item.description} onChange={e => updateItem(item.id, { description: e.target.value })} aria-label="Descripción del concepto" />
+            <div className="w-28 flex-shrink-0">
+              <Input type="text" inputMode="decimal" placeholder="0.00" value={item.amount} onChange={e => updateItem(item.id, { amount: e.target.value })} aria-label="Importe del concepto" />
+            </div>
+            <Button type="button" variant="ghost" size="sm" className="p-1 flex-shrink-0" onClick={() => onChange({ splitItems: items.filter(i => i.id !== item.id) })} aria-label="Eliminar concepto"><XMarkIcon className="w-4 h-4" /></Button>
+          </div>
+          <div className="flex flex-wrap gap-1.5">
+            {participants.map(p => (
+              <button
+                key={p.id}
+                type="button"
+                onClick={() => toggleItemParticipant(item, p.id)}
+                className={`px-2 py-0.5 rounded-full text-xs border ${item.participants.includes(p.id) ? 'bg-teal-600 border-teal-500 text-white' : 'border-slate-600 text-slate-400 hover:text-slate-200'}`}
+              >
+                {p.name}
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+      <Button type="button" variant="secondary" size="sm" onClick={() => onChange({ splitItems: [...items, { id: `item-${Date.now()}-${items.length}`, description: '', amount: '', participants: [] }] })}>Añadir concepto</Button>
+      <div className="grid grid-cols-3 gap-2">
+        <Input label="Impuestos" type="text" inputMode="decimal" placeholder="0.00" value={form.splitTax} onChange={e => onChange({ splitTax: e.target.value })} />
+        <Input label="Propina" type="text" inputMode="decimal" placeholder="0.00" value={form.splitTip} onChange={e => onChange({ splitTip: e.target.value })} />
+        <Input label="Descuento" type="text" inputMode="decimal" placeholder="0.00" value={form.splitDiscount} onChange={e => onChange({ splitDiscount: e.target.value })} />
+      </div>
+      <div className="text-sm text-slate-300 space-y-1">
+        <div className="flex justify-between"><span>Subtotal</span><span>{format(subtotal)}</span></div>
+        <div className="flex justify-between font-medium text-slate-100"><span>Total</span><span>{format(total)}</span></div>
+        {preview && Object.entries(preview).map(([id, share]) => (
+          <div key={id} className="flex justify-between text-xs text-slate-400"><span>{participants.find(p => p.id === id)?.name || id}</span><span>{format(share)}</span></div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// --- Budgets for Gastos ---
+const BudgetProgressBar: React.FC<{ label: string; spent: number; budget: number; formatAmount: (amount: number) => string }> = ({ label, spent, budget, formatAmount }) => {
+  const progress = getBudgetProgress(spent, budget);
+  const barColor = progress.isOver ? 'bg-red-500' : progress.ratio > 0.8 ? 'bg-amber-500' : 'bg-teal-500';
+  return (
+    <div>
+      <div className="flex justify-between text-sm mb-1">
+        <span className="text-slate-200">{label}</span>
+        <span className={progress.isOver ? 'text-red-400 font-medium' : 'text-slate-300'}>{formatAmount(spent)} / {formatAmount(budget)}</span>
+      </div>
+      <div className="w-full h-2 bg-slate-700 rounded-full overflow-hidden">
+        <div className={`h-full ${barColor}`} style={{ width: `${Math.min(progress.ratio * 100, 100)}%` }}></div>
+      </div>
+    </div>
+  );
+};
+
+interface BudgetCardProps {
+  trip: Trip;
+  baseExpenses: Expense[];
+  expensesByCategory: Record<string, number>;
+  totalTripCost: number;
+  currency: string;
+  readOnly?: boolean; // Shows the progress without the option to change the budget
+  onSave: (updatedTrip: Trip) => void;
+}
+const BudgetCard: React.FC<BudgetCardProps> = ({ trip, baseExpenses, expensesByCategory, totalTripCost, currency, readOnly, onSave }) => {
+  const budget = trip.budget;
+  const categories = getTripCategories(trip);
+  const [isEditing, setIsEditing] = useState(false);
+  const [form, setForm] = useState<Record<string, string>>({});
+  const [error, setError] = useState('');
+  const formatAmount = (amount: number) => formatCurrency(amount, currency);
+  const daysOver = useMemo(() => budget?.daily ? getDaysOverBudget(baseExpenses, budget.daily, currency) : [], [baseExpenses, budget, currency]);
+
+  const handleStartEdit = () => {
+    const values: Record<string, string> = { total: budget?.total ? String(budget.total) : '', daily: budget?.daily ? String(budget.daily) : '' };
+    categories.forEach(cat => { values[cat.id] = budget?.byCategory?.[cat.id] ? String(budget.byCategory[cat.id]) : ''; });
+    setForm(values);
+    setError('');
+    setIsEditing(true);
+  };
+
+  const handleSave = () => {
+    const parse = (key: string): number | undefined | null => {
+      const raw = (form[key] || '').trim().replace(',', '.');
+      if (raw === '') return undefined;
+      const value = parseFloat(raw);
+      return isNaN(value) || value <= 0 ? null : value;
+    };
+    const nextBudget: TripBudget = { byCategory: {} };
+    for (const key of ['total', 'daily', ...categories.map(cat => cat.id)]) {
+      const value = parse(key);
+      if (value === null) { setError(`El presupuesto de "${key === 'total' ? 'Total' : key === 'daily' ? 'Diario' : getCategoryName(trip, key)}" debe ser un número mayor que cero.`); return; }
+      if (value === undefined) continue;
+      if (key === 'total') nextBudget.total = value;
+      else if (key === 'daily') nextBudget.daily = value;
+      else nextBudget.byCategory![key] = value;
+    }
+    onSave({ ...trip, budget: hasAnyBudget(nextBudget) ? nextBudget : undefined });
+    setIsEditing(false);
+  };
+
+  return (
+    <Card>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold text-slate-100">Presupuesto</h2>
+        {!isEditing && !readOnly && <Button variant="secondary" size="sm" onClick={handleStartEdit}>{hasAnyBudget(budget) ? 'Editar' : 'Definir Presupuesto'}</Button>}
+      </div>
+      {isEditing ? (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-4">
+            <Input label={`Total del viaje (${currency})`} type="text" inputMode="decimal" placeholder="Sin límite" value={form.total || ''} onChange={e => setForm(prev => ({ ...prev, total: e.target.value }))} />
+            <Input label={`Por día (${currency})`} type="text" inputMode="decimal" placeholder="Sin límite" value={form.daily || ''} onChange={e => setForm(prev => ({ ...prev, daily: e.target.value }))} />
+          </div>
+          <p className="text-sm font-medium text-slate-300">Por categoría</p>
+          <div className="grid grid-cols-2 gap-4">
+            {categories.map(cat => (
+              <Input key={cat.id} label={cat.name} type="text" inputMode="decimal" placeholder="Sin límite" value={form[cat.id] || ''} onChange={e => setForm(prev => ({ ...prev, [cat.id]: e.target.value }))} />
+            ))}
+          </div>
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          <div className="flex justify-end space-x-3">
+            <Button type="button" variant="secondary" onClick={() => setIsEditing(false)}>Cancelar</Button>
+            <Button type="button" onClick={handleSave}>Guardar Presupuesto</Button>
+          </div>
+        </div>
+      ) : !hasAnyBudget(budget) ? (
+        <p className="text-sm text-slate-400">No hay presupuesto definido para este viaje.</p>
+      ) : (
+        <div className="space-y-3">
+          {budget!.total && <BudgetProgressBar label="Total del viaje" spent={totalTripCost} budget={budget!.total} formatAmount={formatAmount} />}
+          {categories.map(cat => budget!.byCategory?.[cat.id] ? (
+            <BudgetProgressBar key={cat.id} label={cat.name} spent={expensesByCategory[cat.id] || 0} budget={budget!.byCategory[cat.id]} formatAmount={formatAmount} />
+          ) : null)}
+          {budget!.daily && (
+            <p className={`text-sm ${daysOver.length > 0 ? 'text-amber-400' : 'text-slate-300'}`}>
+              Presupuesto diario de {formatAmount(budget!.daily)}: {daysOver.length === 0 ? 'ningún día superado.' : `superado en ${daysOver.length} ${daysOver.length === 1 ? 'día' : 'días'} (${daysOver.map(d => formatDate(d.date, { day: 'numeric', month: 'short' })).join(', ')}).`}
+            </p>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+};
+
+// --- Currency Settings for Gastos ---
+interface CurrencySettingsCardProps {
+  trip: Trip;
+  usedCurrencies: string[];
+  onSave: (updatedTrip: Trip) => void;
+}
+const CurrencySettingsCard: React.FC<CurrencySettingsCardProps> = ({ trip, usedCurrencies, onSave }) => {
+  const [baseCurrency, setBaseCurrency] = useState(getTripBaseCurrency(trip));
+  const [rates, setRates] = useState<Record<string, string>>(() =>
+    Object.fromEntries(Object.entries(trip.exchangeRates || {}).map(([code, rate]) => [code, String(rate)])));
+  const [newCurrency, setNewCurrency] = useState('');
+  const [error, setError] = useState('');
+
+  const listedCurrencies = Array.from(new Set([...usedCurrencies, ...Object.keys(rates)])).filter(code => code !== baseCurrency).sort();
+
+  const handleSave = () => {
+    const exchangeRates: Record<string, number> = {};
+    for (const code of listedCurrencies) {
+      const raw = (rates[code] || '').trim().replace(',', '.');
+      if (raw === '') continue;
+      const rate = parseFloat(raw);
+      if (isNaN(rate) || rate <= 0) { setError(`El tipo de cambio de ${code} debe ser un número mayor que cero.`); return; }
+      exchangeRates[code] = rate;
+    }
+    setError('');
+    onSave({ ...trip, baseCurrency, exchangeRates });
+  };
+
+  return (
+    <Card>
+      <h2 className="text-xl font-semibold text-slate-100 mb-4">Monedas y Tipos de Cambio</h2>
+      <div className="space-y-3">
+        <Select label="Moneda base del viaje" value={baseCurrency} onChange={e => setBaseCurrency(e.target.value)}>
+          {Array.from(new Set([baseCurrency, ...CURRENCIES])).map(code => <option key={code} value={code}>{code}</option>)}
+        </Select>
+        {listedCurrencies.map(code => (
+          <div key={code} className="flex items-center space-x-2">
+            <span className="text-sm text-slate-300 w-20">1 {code} =</span>
+            <Input type="text" inputMode="decimal" placeholder="Sin tipo" value={rates[code] || ''} onChange={e => setRates(prev => ({ ...prev, [code]: e.target.value }))} aria-label={`Tipo de cambio de ${code}`} />
+            <span className="text-sm text-slate-300">{baseCurrency}</span>
+          </div>
+        ))}
+        <div className="flex items-end space-x-2">
+          <Select label="Añadir moneda" value={newCurrency} onChange={e => setNewCurrency(e.target.value)}>
+            <option value="">Selecciona moneda</option>
+            {CURRENCIES.filter(code => code !== baseCurrency && !listedCurrencies.includes(code)).map(code => <option key={code} value={code}>{code}</option>)}
+          </Select>
+          <Button type="button" variant="secondary" disabled={!newCurrency} onClick={() => { setRates(prev => ({ ...prev, [newCurrency]: '' })); setNewCurrency(''); }}>Añadir</Button>
+        </div>
+        {error && <p className="text-sm text-red-400">{error}</p>}
+        <p className="text-xs text-slate-400">Los tipos de cambio se mantienen manualmente y se aplican a todos los gastos del viaje.</p>
+        <Button type="button" onClick={handleSave} className="w-full">Guardar Monedas</Button>
+      </div>
+    </Card>
+  );
+};
+
+// --- Category Settings for Gastos ---
+interface CategorySettingsCardProps {
+  trip: Trip;
+  expenses: Expense[];
+  onSave: (updatedTrip: Trip) => void;
+  onReassignExpense: (expense: Expense, categoryId: string) => void;
+}
+const CategorySettingsCard: React.FC<CategorySettingsCardProps> = ({ trip, expenses, onSave, onReassignExpense }) => {
+  const categories = getTripCategories(trip);
+  const [form, setForm] = useState<{ id: string | null; name: string; icon: CategoryIcon; color: string } | null>(null);
+  const [error, setError] = useState('');
+
+  const handleSave = () => {
+    if (!form) return;
+    const nameError = validateCategoryName(form.name, categories, form.id || undefined);
+    if (nameError) { setError(nameError); return; }
+    const category: TripCategory = { id: form.id || `cat-${Date.now()}`, name: form.name.trim(), icon: form.icon, color: form.color };
+    onSave({ ...trip, categories: form.id ? categories.map(cat => cat.id === form.id ? category : cat) : [...categories, category] });
+    setForm(null);
+    setError('');
+  };
+
+  // Expenses of a deleted category move to "Otros" (or the first remaining category) so no totals are lost.
+  const handleDelete = (category: TripCategory) => {
+    const remaining = categories.filter(cat => cat.id !== category.id);
+    if (remaining.length === 0) { alert("El viaje necesita al menos una categoría."); return; }
+    const fallback = remaining.find(cat => cat.id === ExpenseCategory.OTROS) || remaining[0];
+    const used = expenses.filter(exp => exp.category === category.id);
+    const message = used.length > 0
+      ? `${used.length} ${used.length === 1 ? 'gasto' : 'gastos'} de "${category.name}" pasarán a "${fallback.name}". ¿Eliminar la categoría?`
+      : `¿Eliminar la categoría "${category.name}"?`;
+    if (!window.confirm(message)) return;
+    used.forEach(exp => onReassignExpense(exp, fallback.id));
+    const byCategory = Object.fromEntries(Object.entries(trip.budget?.byCategory || {}).filter(([id]) => id !== category.id));
+    onSave({ ...trip, categories: remaining, budget: trip.budget ? { ...trip.budget, byCategory } : undefined });
+  };
+
+  return (
+    <Card>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold text-slate-100">Categorías</h2>
+        {!form && <Button variant="secondary" size="sm" onClick={() => { setForm({ id: null, name: '', icon: 'star', color: Object.keys(CATEGORY_COLORS)[0] }); setError(''); }}>Nueva Categoría</Button>}
+      </div>
+      {form && (
+        <div className="space-y-3 mb-4 p-3 border border-slate-700 rounded-md">
+          <Input label="Nombre" type="text" placeholder="Ej: Forfait" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} />
+          <div>
+            <p className="block text-sm font-medium text-slate-300 mb-1">Icono</p>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(CATEGORY_ICONS) as CategoryIcon[]).map(icon => (
+                <button key={icon} type="button" onClick={() => setForm({ ...form, icon })} aria-label={`Icono ${icon}`}
+                  className={`p-2 rounded-full text-white ${form.color} ${form.icon === icon ? 'ring-2 ring-offset-2 ring-offset-slate-800 ring-teal-400' : 'opacity-60 hover:opacity-100'}`}>
+                  {React.cloneElement(CATEGORY_ICONS[icon] as React.ReactElement<any>, { className: "w-4 h-4" })}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <p className="block text-sm font-medium text-slate-300 mb-1">Color</p>
+            <div className="flex flex-wrap gap-2">
+              {Object.keys(CATEGORY_COLORS).map(color => (
+                <button key={color} type="button" onClick={() => setForm({ ...form, color })} aria-label={`Color ${color}`}
+                  className={`w-7 h-7 rounded-full ${color} ${form.color === color ? 'ring-2 ring-offset-2 ring-offset-slate-800 ring-teal-400' : ''}`} />
+              ))}
+            </div>
+          </div>
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          <div className="flex justify-end space-x-3">
+            <Button type="button" variant="secondary" onClick={() => { setForm(null); setError(''); }}>Cancelar</Button>
+            <Button type="button" onClick={handleSave}>{form.id ? 'Guardar Categoría' : 'Añadir Categoría'}</Button>
+          </div>
+        </div>
+      )}
+      <ul className="space-y-2">
+        {categories.map(cat => {
+          const count = expenses.filter(exp => exp.category === cat.id).length;
+          return (
+            <li key={cat.id} className="flex justify-between items-center">
+              <div className="flex items-center space-x-2">
+                <span className={`p-1.5 rounded-full text-white ${cat.color}`}>{React.cloneElement(CATEGORY_ICONS[cat.icon] as React.ReactElement<any>, { className: "w-4 h-4" })}</span>
+                <span className="text-slate-200">{cat.name}</span>
+                {count > 0 && <span className="text-xs text-slate-400">({count})</span>}
+              </div>
+              <div className="flex space-x-1">
+                <Button variant="ghost" size="sm" className="p-1" onClick={() => { setForm({ id: cat.id, name: cat.name, icon: cat.icon, color: cat.color }); setError(''); }} aria-label={`Editar ${cat.name}`}><PencilIcon className="w-4 h-4" /></Button>
+                <Button variant="ghost" size="sm" className="p-1 text-red-400" onClick={() => handleDelete(cat)} aria-label={`Eliminar ${cat.name}`}><TrashIcon className="w-4 h-4" /></Button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </Card>
+  );
+};
+
+// --- Payment Accounts for Gastos ---
+interface PaymentAccountsCardProps {
+  trip: Trip;
+  expenses: Expense[];
+  onSave: (updatedTrip: Trip) => void;
+  onClearExpenseAccount: (expense: Expense) => void;
+}
+const PaymentAccountsCard: React.FC<PaymentAccountsCardProps> = ({ trip, expenses, onSave, onClearExpenseAccount }) => {
+  const accounts = getTripPaymentAccounts(trip);
+  const baseCurrency = getTripBaseCurrency(trip);
+  const [form, setForm] = useState<{ id: string | null; name: string; type: PaymentAccountType; owner: string; currency: string; foreignFeePercent: string } | null>(null);
+  const [error, setError] = useState('');
+
+  const handleSave = () => {
+    if (!form) return;
+    const nameError = validatePaymentAccountName(form.name, accounts, form.id || undefined);
+    if (nameError) { setError(nameError); return; }
+    const fee = form.foreignFeePercent.trim() ? parseFloat(form.foreignFeePercent.replace(',', '.')) : 0;
+    if (isNaN(fee) || fee < 0 || fee > 100) { setError("La comisión debe ser un porcentaje entre 0 y 100."); return; }
+    const account: PaymentAccount = {
+      id: form.id || `acc-${Date.now()}`,
+      name: form.name.trim(),
+      type: form.type,
+      owner: form.owner || undefined,
+      currency: form.currency === baseCurrency ? undefined : form.currency,
+      foreignFeePercent: fee > 0 ? fee : undefined,
+    };
+    onSave({ ...trip, paymentAccounts: form.id ? accounts.map(acc => acc.id === form.id ? account : acc) : [...accounts, account] });
+    setForm(null);
+    setError('');
+  };
+
+  // Expenses paid with a deleted account keep everything else and simply lose the account.
+  const handleDelete = (account: PaymentAccount) => {
+    const remaining = accounts.filter(acc => acc.id !== account.id);
+    if (remaining.length === 0) { alert("El viaje necesita al menos una cuenta de pago."); return; }
+    const used = expenses.filter(exp => exp.paymentMethod === account.id);
+    const message = used.length > 0
+      ? `${used.length} ${used.length === 1 ? 'gasto quedará' : 'gastos quedarán'} sin cuenta de pago. ¿Eliminar "${account.name}"?`
+      : `¿Eliminar la cuenta "${account.name}"?`;
+    if (!window.confirm(message)) return;
+    used.forEach(exp => onClearExpenseAccount(exp));
+    onSave({ ...trip, paymentAccounts: remaining });
+  };
+
+  const editAccount = (acc: PaymentAccount) => {
+    setForm({ id: acc.id, name: acc.name, type: acc.type, owner: acc.owner || '', currency: acc.currency || baseCurrency, foreignFeePercent: acc.foreignFeePercent ? String(acc.foreignFeePercent) : '' });
+    setError('');
+  };
+
+  return (
+    <Card>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold text-slate-100">Cuentas de Pago</h2>
+        {!form && <Button variant="secondary" size="sm" onClick={() => { setForm({ id: null, name: '', type: 'tarjeta', owner: '', currency: baseCurrency, foreignFeePercent: '' }); setError(''); }}>Nueva Cuenta</Button>}
+      </div>
+      {form && (
+        <div className="space-y-3 mb-4 p-3 border border-slate-700 rounded-md">
+          <Input label="Nombre" type="text" placeholder="Ej: Revolut de Ana" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} />
+          <div className="grid grid-cols-2 gap-3">
+            <Select label="Tipo" value={form.type} onChange={e => setForm({ ...form, type: e.target.value as PaymentAccountType })}>
+              {(Object.keys(PAYMENT_ACCOUNT_TYPE_LABELS) as PaymentAccountType[]).map(type => <option key={type} value={type}>{PAYMENT_ACCOUNT_TYPE_LABELS[type]}</option>)}
+            </Select>
+            <Select label="Titular" value={form.owner} onChange={e => setForm({ ...form, owner: e.target.value })}>
+              <option value="">Común</option>
+              {trip.participants.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </Select>
+            <Select label="Moneda de la cuenta" value={form.currency} onChange={e => setForm({ ...form, currency: e.target.value })}>
+              {Array.from(new Set([baseCurrency, ...CURRENCIES])).map(code => <option key={code} value={code}>{code}</option>)}
+            </Select>
+            <Input label="Comisión en otra moneda (%)" type="number" step="0.01" min="0" placeholder="Ej: 2.5" value={form.foreignFeePercent} onChange={e => setForm({ ...form, foreignFeePercent: e.target.value })} />
+          </div>
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          <div className="flex justify-end space-x-3">
+            <Button type="button" variant="secondary" onClick={() => { setForm(null); setError(''); }}>Cancelar</Button>
+            <Button type="button" onClick={handleSave}>{form.id ? 'Guardar Cuenta' : 'Añadir Cuenta'}</Button>
+          </div>
+        </div>
+      )}
+      <ul className="space-y-2">
+        {accounts.map(acc => {
+          const count = expenses.filter(exp => exp.paymentMethod === acc.id).length;
+          return (
+            <li key={acc.id} className="flex justify-between items-center">
+              <div>
+                <p className="text-slate-200">{acc.name}{count > 0 && <span className="text-xs text-slate-400 ml-1">({count})</span>}</p>
+                <p className="text-xs text-slate-400">
+                  {PAYMENT_ACCOUNT_TYPE_LABELS[acc.type]} · {acc.owner ? getParticipantName(trip, acc.owner) : 'Común'} · {acc.currency || baseCurrency}
+                  {acc.foreignFeePercent ? ` · ${acc.foreignFeePercent}% en otra moneda` : ''}
+                </p>
+              </div>
+              <div className="flex space-x-1">
+                <Button variant="ghost" size="sm" className="p-1" onClick={() => editAccount(acc)} aria-label={`Editar ${acc.name}`}><PencilIcon className="w-4 h-4" /></Button>
+                <Button variant="ghost" size="sm" className="p-1 text-red-400" onClick={() => handleDelete(acc)} aria-label={`Eliminar ${acc.name}`}><TrashIcon className="w-4 h-4" /></Button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </Card>
+  );
+};
+
+// --- Settlement Preferences for Gastos ---
+interface SettlementPreferencesCardProps {
+  trip: Trip;
+  onSave: (updatedTrip: Trip) => void;
+}
+const SettlementPreferencesCard: React.FC<SettlementPreferencesCardProps> = ({ trip, onSave }) => {
+  const [first, setFirst] = useState('');
+  const [second, setSecond] = useState('');
+  const pairs = trip.settlementAvoidPairs || [];
+  const hasPair = (a: string, b: string) => pairs.some(([x, y]) => (x === a && y === b) || (x === b && y === a));
+
+  const handleAdd = () => {
+    if (!first || !second || first === second || hasPair(first, second)) return;
+    onSave({ ...trip, settlementAvoidPairs: [...pairs, [first, second]] });
+    setFirst(''); setSecond('');
+  };
+
+  return (
+    <Card>
+      <h2 className="text-xl font-semibold text-slate-100 mb-2">Preferencias de Liquidación</h2>
+      <p className="text-xs text-slate-400 mb-3">Indica quién prefiere no pagarse directamente (por ejemplo, si no se conocen). Se intentará respetar, aunque para ello otro participante tenga que hacer de intermediario.</p>
+      {pairs.length > 0 && (
+        <ul className="space-y-1 mb-3">
+          {pairs.map(([a, b]) => (
+            <li key={`${a}-${b}`} className="flex justify-between items-center text-sm text-slate-200">
+              <span>{getParticipantName(trip, a)} ↔ {getParticipantName(trip, b)}</span>
+              <Button variant="link" size="sm" className="p-0 text-xs text-red-400" onClick={() => onSave({ ...trip, settlementAvoidPairs: pairs.filter(([x, y]) => !(x === a && y === b)) })}>Quitar</Button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex items-end space-x-2">
+        <Select label="Participante" value={first} onChange={e => setFirst(e.target.value)}>
+          <option value="">Selecciona</option>
+          {trip.participants.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </Select>
+        <Select label="No paga a" value={second} onChange={e => setSecond(e.target.value)}>
+          <option value="">Selecciona</option>
+          {trip.participants.filter(p => p.id !== first && !hasPair(first, p.id)).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </Select>
+        <Button type="button" variant="secondary" disabled={!first || !second || first === second} onClick={handleAdd}>Añadir</Button>
+      </div>
+    </Card>
+  );
+};
+
+// --- Participant Presence for Gastos ---
+interface ParticipantPresenceCardProps {
+  trip: Trip;
+  readOnly?: boolean;
+  onSave: (updatedTrip: Trip) => void;
+}
+const ParticipantPresenceCard: React.FC<ParticipantPresenceCardProps> = ({ trip, readOnly, onSave }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState({ arrivalDate: '', departureDate: '' });
+  const [error, setError] = useState('');
+
+  const startEdit = (participant: Participant) => {
+    setEditingId(participant.id);
+    setForm({ arrivalDate: participant.arrivalDate || '', departureDate: participant.departureDate || '' });
+    setError('');
+  };
+
+  const handleSave = () => {
+    const validationError = validatePresence(form.arrivalDate, form.departureDate);
+    if (validationError) { setError(validationError); return; }
+    onSave({
+      ...trip,
+      participants: trip.participants.map(p => p.id === editingId ? { ...p, arrivalDate: form.arrivalDate || undefined, departureDate: form.departureDate || undefined } : p),
+    });
+    setEditingId(null);
+  };
+
+  return (
+    <Card>
+      <h2 className="text-xl font-semibold text-slate-100 mb-2">Fechas de Cada Participante</h2>
+      <p className="text-xs text-slate-400 mb-3">Si alguien llega más tarde o se va antes, los gastos que se reparten entre todos solo cuentan con quienes estaban ese día. Un reparto elegido a mano en el gasto siempre se respeta.</p>
+      <ul className="space-y-2">
+        {trip.participants.map(p => (
+          <li key={p.id} className="text-sm">
+            {editingId === p.id ? (
+              <div className="space-y-2">
+                <p className="text-slate-200 font-semibold">{p.name}</p>
+                <div className="grid grid-cols-2 gap-4">
+                  <Input label="Llega el (Opcional)" type="date" value={form.arrivalDate} onChange={e => setForm(prev => ({ ...prev, arrivalDate: e.target.value }))} />
+                  <Input label="Se va el (Opcional)" type="date" value={form.departureDate} min={form.arrivalDate || undefined} onChange={e => setForm(prev => ({ ...prev, departureDate: e.target.value }))} />
+                </div>
+                {error && <p className="text-sm text-red-400">{error}</p>}
+                <div className="flex space-x-2">
+                  <Button type="button" size="sm" onClick={handleSave}>Guardar</Button>
+                  <Button type="button" size="sm" variant="ghost" onClick={() => setEditingId(null)}>Cancelar</Button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex justify-between items-center">
+                <span className="text-slate-200">{p.name} <span className="text-xs text-slate-400">· {describePresence(p, date => formatDate(date, { day: 'numeric', month: 'short' }))}</span></span>
+                {!readOnly && <Button variant="ghost" size="sm" onClick={() => startEdit(p)} className="p-1" aria-label={`Editar fechas de ${p.name}`}><PencilIcon className="w-4 h-4"/></Button>}
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </Card>
+  );
+};
+
+// --- Settlement Ledger for Gastos ---
+interface SettlementLedgerCardProps {
+  participants: Participant[];
+  transfers: SettlementTransfer[];
+  totalTransferred: number;
+  totalOutstanding: number;
+  formatAmount: (amount: number) => string;
+  readOnly?: boolean;
+  onAdd: (transferData: Omit<SettlementTransfer, 'id' | 'tripId' | 'createdAt'>) => void;
+  onDelete: (transferId: string) => void;
+}
+const SettlementLedgerCard: React.FC<SettlementLedgerCardProps> = ({ participants, transfers, totalTransferred, totalOutstanding, formatAmount, readOnly, onAdd, onDelete }) => {
+  const getEmptyTransferForm = () => ({
+    from: participants[0]?.id || '', to: participants[1]?.id || '', amount: '',
+    date: new Date().toISOString().split('T')[0], method: '' as TransferMethod | '', note: '',
+  });
+  const [newTransfer, setNewTransfer] = useState(getEmptyTransferForm);
+  const [showForm, setShowForm] = useState(false);
+  const [error, setError] = useState('');
+  const getName = (id: string) => participants.find(p => p.id === id)?.name || id;
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    setNewTransfer(prev => ({ ...prev, [e.target.name]: e.target.value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = parseFloat(newTransfer.amount.trim().replace(',', '.'));
+    if (isNaN(amount) || amount <= 0) { setError("La cantidad debe ser un número mayor que cero."); return; }
+    if (newTransfer.from === newTransfer.to) { setError("Quien paga y quien recibe deben ser personas distintas."); return; }
+    setError('');
+    onAdd({
+      from: newTransfer.from, to: newTransfer.to, amount, date: newTransfer.date,
+      method: newTransfer.method || undefined, note: newTransfer.note.trim() || undefined,
+    });
+    setNewTransfer(getEmptyTransferForm());
+    setShowForm(false);
+  };
+
+  return (
+    <Card>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold text-slate-100">Pagos Realizados</h2>
+        {!readOnly && (
+          <Button variant="secondary" size="sm" onClick={() => setShowForm(s => !s)} iconLeft={showForm ? <MinusIcon className="w-4 h-4"/> : <PlusIcon className="w-4 h-4"/>}>
+            {showForm ? 'Cancelar' : 'Registrar Pago'}
+          </Button>
+        )}
+      </div>
+      <div className="grid grid-cols-2 gap-4 mb-4">
+        <div>
+          <p className="text-xs text-slate-400">Saldado</p>
+          <p className="text-lg font-semibold text-teal-300">{formatAmount(totalTransferred)}</p>
+        </div>
+        <div>
+          <p className="text-xs text-slate-400">Pendiente</p>
+          <p className="text-lg font-semibold text-amber-400">{formatAmount(totalOutstanding)}</p>
+        </div>
+      </div>
+      {showForm && (
+        <form onSubmit={handleSubmit} className="space-y-3 mb-4 border-t border-slate-700 pt-4">
+          <div className="grid grid-cols-2 gap-4">
+            <Select label="Paga" name="from" value={newTransfer.from} onChange={handleInputChange}>
+              {participants.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </Select>
+            <Select label="Recibe" name="to" value={newTransfer.to} onChange={handleInputChange}>
+              {participants.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <Input label="Cantidad" name="amount" type="text" inputMode="decimal" placeholder="0.00" value={newTransfer.amount} onChange={handleInputChange} required />
+            <Input label="Fecha" name="date" type="date" value={newTransfer.date} onChange={handleInputChange} required />
+          </div>
+          <Select label="Método (Opcional)" name="method" value={newTransfer.method} onChange={handleInputChange}>
+            <option value="">No especificar</option>
+            {(Object.keys(TRANSFER_METHOD_LABELS) as TransferMethod[]).map(m => <option key={m} value={m}>{TRANSFER_METHOD_LABELS[m]}</option>)}
+          </Select>
+          <Input label="Nota (Opcional)" name="note" type="text" value={newTransfer.note} onChange={handleInputChange} />
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          <Button type="submit" className="w-full">Guardar Pago</Button>
+        </form>
+      )}
+      {transfers.length === 0 ? (
+        <p className="text-sm text-slate-400">Aún no se ha registrado ningún pago entre participantes.</p>
+      ) : (
+        <ul className="space-y-2">
+          {transfers.map(tr => (
+            <li key={tr.id} className="flex justify-between items-center text-sm">
+              <div>
+                <p className="text-slate-200"><span className="font-semibold">{getName(tr.from)}</span> pagó a <span className="font-semibold">{getName(tr.to)}</span></p>
+                <p className="text-xs text-slate-400">
+                  {formatDate(tr.date)}
+                  {tr.method && <span> · {TRANSFER_METHOD_LABELS[tr.method]}</span>}
+                  {tr.note && <span> · {tr.note}</span>}
+                </p>
+              </div>
+              <div className="flex items-center space-x-2 flex-shrink-0">
+                <span className="font-medium text-slate-100">{formatAmount(tr.amount)}</span>
+                {!readOnly && <Button variant="ghost" size="sm" onClick={() => onDelete(tr.id)} className="p-1 text-red-400 hover:text-red-500" aria-label="Eliminar pago"><TrashIcon className="w-4 h-4"/></Button>}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  );
+};
+
+// --- Kitty for Gastos ---
+interface KittyCardProps {
+  trip: Trip;
+  baseExpenses: Expense[];
+  formatAmount: (amount: number) => string;
+  readOnly?: boolean; // Shows the kitty without contributing, renaming or deleting; nothing at all if there is none
+  onSave: (updatedTrip: Trip) => void;
+  onShowExpenses: () => void;
+}
+const KittyCard: React.FC<KittyCardProps> = ({ trip, baseExpenses, formatAmount, readOnly, onSave, onShowExpenses }) => {
+  const getEmptyContributionForm = () => ({ participant: trip.participants[0]?.id || '', amount: '', date: new Date().toISOString().split('T')[0], note: '' });
+  const [newContribution, setNewContribution] = useState(getEmptyContributionForm);
+  const [showForm, setShowForm] = useState(false);
+  const [kittyName, setKittyName] = useState(trip.kitty?.name || DEFAULT_KITTY_NAME);
+  const [error, setError] = useState('');
+  const kitty = useMemo(() => getKittySummary(trip, baseExpenses), [trip, baseExpenses]);
+  const kittyExpenseCount = baseExpenses.filter(isPaidByKitty).length;
+
+  if (!trip.kitty) {
+    if (readOnly) return null;
+    return (
+      <Card>
+        <h2 className="text-xl font-semibold text-slate-100 mb-2">Bote Común</h2>
+        <p className="text-sm text-slate-400 mb-3">Si el grupo pone dinero en común y paga desde ahí, crea un bote: registra lo que aporta cada uno y marca los gastos como pagados por el bote.</p>
+        <Button variant="secondary" size="sm" onClick={() => onSave({ ...trip, kitty: { name: DEFAULT_KITTY_NAME, contributions: [] } })} iconLeft={<PlusIcon className="w-4 h-4"/>}>Crear Bote</Button>
+      </Card>
+    );
+  }
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    setNewContribution(prev => ({ ...prev, [e.target.name]: e.target.value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = parseFloat(newContribution.amount.trim().replace(',', '.'));
+    const validationError = validateKittyContribution(newContribution.participant, amount);
+    if (validationError) { setError(validationError); return; }
+    setError('');
+    const contribution: KittyContribution = {
+      id: `kitty-${Date.now()}`, participant: newContribution.participant, amount, date: newContribution.date, note: newContribution.note.trim() || undefined,
+    };
+    onSave({ ...trip, kitty: { ...trip.kitty!, contributions: [...trip.kitty!.contributions, contribution] } });
+    setNewContribution(getEmptyContributionForm());
+    setShowForm(false);
+  };
+
+  const handleRename = () => {
+    const name = kittyName.trim();
+    if (!name) { setKittyName(trip.kitty!.name); return; }
+    if (name !== trip.kitty!.name) onSave({ ...trip, kitty: { ...trip.kitty!, name } });
+  };
+
+  const handleDeleteContribution = (contributionId: string) => {
+    if (!window.confirm("¿Eliminar esta aportación? Las cuentas se recalcularán.")) return;
+    onSave({ ...trip, kitty: { ...trip.kitty!, contributions: trip.kitty!.contributions.filter(c => c.id !== contributionId) } });
+  };
+
+  const handleDeleteKitty = () => {
+    if (kittyExpenseCount > 0) { alert(`Hay ${kittyExpenseCount} ${kittyExpenseCount === 1 ? 'gasto pagado' : 'gastos pagados'} desde el bote. Asígnalos a un participante antes de eliminarlo.`); return; }
+    if (!window.confirm(`¿Eliminar "${trip.kitty!.name}" y sus aportaciones?`)) return;
+    onSave({ ...trip, kitty: undefined });
+  };
+
+  const sortedContributions = [...trip.kitty.contributions].sort((a, b) => b.date.localeCompare(a.date));
+
+  return (
+    <Card>
+      <div className="flex justify-between items-center mb-4">
+        <input className="text-xl font-semibold text-slate-100 bg-transparent border-b border-transparent hover:border-slate-600 focus:border-teal-500 focus:outline-none min-w-0" aria-label="Nombre del bote"
+          value={kittyName} readOnly={readOnly} onChange={e => setKittyName(e.target.value)} onBlur={handleRename} onKeyDown={e => { if (e.key === 'Enter') e.currentTarget.blur(); }} />
+        {!readOnly && (
+          <div className="flex items-center space-x-2 flex-shrink-0">
+            <Button variant="secondary" size="sm" onClick={() => setShowForm(s => !s)} iconLeft={showForm ? <MinusIcon className="w-4 h-4"/> : <PlusIcon className="w-4 h-4"/>}>
+              {showForm ? 'Cancelar' : 'Aportar'}
+            </Button>
+            <Button variant="ghost" size="sm" onClick={handleDeleteKitty} className="p-1 text-red-400 hover:text-red-500" aria-label="Eliminar bote"><TrashIcon className="w-4 h-4"/></Button>
+          </div>
+        )}
+      </div>
+      <div className="grid grid-cols-3 gap-4 mb-4">
+        <div>
+          <p className="text-xs text-slate-400">Aportado</p>
+          <p className="text-lg font-semibold text-teal-300">{formatAmount(kitty.contributed)}</p>
+        </div>
+        <div>
+          <p className="text-xs text-slate-400">Pagado</p>
+          <button type="button" className="text-lg font-semibold text-slate-100 hover:underline" title="Ver estos gastos en la lista" onClick={onShowExpenses}>{formatAmount(kitty.spent)}</button>
+        </div>
+        <div>
+          <p className="text-xs text-slate-400">Saldo</p>
+          <p className={`text-lg font-semibold ${kitty.balance < -0.005 ? 'text-red-400' : 'text-sky-400'}`}>{formatAmount(kitty.balance)}</p>
+        </div>
+      </div>
+      {kitty.balance < -0.005 && <p className="text-sm text-red-400 mb-3">El bote ha pagado más de lo que se ha aportado: la diferencia se reparte entre quienes aportaron.</p>}
+      {showForm && (
+        <form onSubmit={handleSubmit} className="space-y-3 mb-4 border-t border-slate-700 pt-4">
+          <div className="grid grid-cols-2 gap-4">
+            <Select label="Participante" name="participant" value={newContribution.participant} onChange={handleInputChange}>
+              {trip.participants.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </Select>
+            <Input label="Cantidad" name="amount" type="text" inputMode="decimal" placeholder="0.00" value={newContribution.amount} onChange={handleInputChange} required />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <Input label="Fecha" name="date" type="date" value={newContribution.date} onChange={handleInputChange} required />
+            <Input label="Nota (Opcional)" name="note" type="text" value={newContribution.note} onChange={handleInputChange} />
+          </div>
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          <Button type="submit" className="w-full">Guardar Aportación</Button>
+        </form>
+      )}
+      {Object.keys(kitty.contributionsByParticipant).length > 0 && (
+        <div className="mb-4">
+          <h3 className="text-sm font-semibold text-slate-300 mb-2">Reparto al cerrar el bote</h3>
+          <ul className="space-y-1">
+            {Object.entries(kitty.contributionsByParticipant).map(([id, amount]) => (
+              <li key={id} className="text-xs text-slate-300 flex justify-between">
+                <span>{getParticipantName(trip, id)} · aportó {formatAmount(amount)}, le corresponde {formatAmount(kitty.chargedByParticipant[id] || 0)} de lo pagado</span>
+                <span className={kitty.returns[id] < -0.005 ? 'text-amber-400' : 'text-sky-400'}>{kitty.returns[id] < -0.005 ? `pone ${formatAmount(-kitty.returns[id])}` : `recibe ${formatAmount(kitty.returns[id] || 0)}`}</span>
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs text-slate-400 mt-2">El sobrante se devuelve en proporción a lo que aportó cada uno. Los balances ya cuentan con ello.</p>
+        </div>
+      )}
+      {sortedContributions.length === 0 ? (
+        <p className="text-sm text-slate-400">Aún no hay aportaciones al bote.</p>
+      ) : (
+        <ul className="space-y-2">
+          {sortedContributions.map(c => (
+            <li key={c.id} className="flex justify-between items-center text-sm">
+              <div>
+                <p className="text-slate-200"><span className="font-semibold">{getParticipantName(trip, c.participant)}</span> aportó</p>
+                <p className="text-xs text-slate-400">
+                  {formatDate(c.date)}
+                  {c.note && <span> · {c.note}</span>}
+                </p>
+              </div>
+              <div className="flex items-center space-x-2 flex-shrink-0">
+                <span className="font-medium text-slate-100">{formatAmount(c.amount)}</span>
+                {!readOnly && <Button variant="ghost" size="sm" onClick={() => handleDeleteContribution(c.id)} className="p-1 text-red-400 hover:text-red-500" aria-label="Eliminar aportación"><TrashIcon className="w-4 h-4"/></Button>}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  );
+};
+
+// --- Statement Import for Gastos ---
+const StatementImportView: React.FC<{ onDone: () => void }> = ({ onDone }) => {
+  const { trip, expenses, addExpenses } = useActiveTrip();
+  const baseCurrency = getTripBaseCurrency(trip);
+  const [fileName, setFileName] = useState('');
+  const [csvRows, setCsvRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<StatementColumnMapping | null>(null);
+  const [selectedRows, setSelectedRows] = useState<Set<number>>(new Set());
+  const categories = getTripCategories(trip);
+  const paymentAccounts = getTripPaymentAccounts(trip);
+  const [accountId, setAccountId] = useState((paymentAccounts.find(acc => acc.type === 'tarjeta') || paymentAccounts[0]).id);
+  const [newExpenseDefaults, setNewExpenseDefaults] = useState({ paidBy: trip.participants[0]?.id || '', category: categories[categories.length - 1].id });
+  const [error, setError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setError('');
+    if (!file) { setCsvRows([]); setMapping(null); return; }
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      const rows = parseCsv(String(reader.result || ''));
+      if (rows.length === 0) { setError("El archivo está vacío o no es un CSV válido."); return; }
+      setFileName(file.name);
+      setCsvRows(rows);
+      setMapping(guessStatementMapping(rows));
+      setSelectedRows(new Set());
+    };
+    reader.readAsText(file);
+  };
+
+  const parsed = useMemo(() => mapping ? parseStatementRows(csvRows, mapping) : { rows: [], skipped: 0 }, [csvRows, mapping]);
+  const matches = useMemo(
+    () => reconcileStatement(parsed.rows, expenses, exp => toBaseCurrencyExpense(exp, trip).amount),
+    [parsed.rows, expenses, trip]
+  );
+  const unmatched = matches.filter(m => !m.expense);
+  const handleAccountChange = (id: string) => {
+    setAccountId(id);
+    // New expenses from an account's statement were most likely paid by its owner
+    const owner = paymentAccounts.find(acc => acc.id === id)?.owner;
+    if (owner) setNewExpenseDefaults(prev => ({ ...prev, paidBy: owner }));
+  };
+
+  // Expenses logged in the app with this account within the statement's dates that the bank does not list
+  const unlistedAccountExpenses = useMemo(() => {
+    if (parsed.rows.length === 0) return [];
+    const dates = parsed.rows.map(r => r.date).sort();
+    const matchedIds = new Set(matches.filter(m => m.expense).map(m => m.expense!.id));
+    return expenses.filter(exp => exp.paymentMethod === accountId && !matchedIds.has(exp.id) && exp.date >= dates[0] && exp.date <= dates[dates.length - 1]);
+  }, [parsed.rows, matches, expenses, accountId]);
+
+  const columnOptions = (csvRows[0] || []).map((cell, i) => ({ value: i, label: mapping?.hasHeader && cell.trim() ? cell.trim() : `Columna ${i + 1}` }));
+
+  const toggleRow = (index: number) => {
+    setSelectedRows(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index); else next.add(index);
+      return next;
+    });
+  };
+
+  const handleCreateExpenses = () => {
+    if (!newExpenseDefaults.paidBy) { setError("Selecciona quién pagó los gastos nuevos."); return; }
+    const rowsToCreate = unmatched.filter(m => selectedRows.has(m.row.index));
+    if (rowsToCreate.length === 0) { setError("Selecciona al menos un movimiento sin conciliar."); return; }
+    // Money coming in becomes a refund received by the same person
+    addExpenses(rowsToCreate.map(({ row }) => ({
+      date: row.date,
+      amount: row.amount,
+      category: newExpenseDefaults.category,
+      description: row.merchant,
+      paidBy: newExpenseDefaults.paidBy,
+      paymentMethod: accountId,
+      ...(row.isCredit ? { kind: 'refund' as ExpenseKind } : {}),
+    })));
+    alert(`${rowsToCreate.length} ${rowsToCreate.length === 1 ? 'movimiento registrado' : 'movimientos registrados'} desde el extracto.`);
+    onDone();
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <h2 className="text-xl font-semibold text-slate-100 mb-2">Importar Extracto Bancario</h2>
+        <p className="text-sm text-slate-400 mb-4">Sube el CSV de tu tarjeta o banco para compararlo con los gastos registrados. El archivo se procesa solo en este dispositivo. Las cantidades se interpretan en {baseCurrency}.</p>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <Select label="Cuenta del extracto" value={accountId} onChange={e => handleAccountChange(e.target.value)}>
+            {paymentAccounts.map(acc => <option key={acc.id} value={acc.id}>{acc.name}</option>)}
+          </Select>
+          <Input type="file" label="Archivo CSV" accept=".csv,text/csv" onChange={handleFileChange} ref={fileInputRef} />
+        </div>
+        {error && <p className="text-sm text-red-400 mt-2">{error}</p>}
+      </Card>
+
+      {mapping && (
+        <Card>
+          <h3 className="text-lg font-semibold text-slate-100 mb-3">Columnas de {fileName}</h3>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <Select label="Fecha" value={mapping.date} onChange={e => setMapping({ ...mapping, date: Number(e.target.value) })}>
+              {columnOptions.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+            </Select>
+            <Select label="Importe" value={mapping.amount} onChange={e => setMapping({ ...mapping, amount: Number(e.target.value) })}>
+              {columnOptions.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+            </Select>
+            <Select label="Comercio / Concepto" value={mapping.merchant} onChange={e => setMapping({ ...mapping, merchant: Number(e.target.value) })}>
+              {columnOptions.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+            </Select>
+          </div>
+          <label className="flex items-center space-x-2 mt-3 cursor-pointer">
+            <input type="checkbox" checked={mapping.hasHeader} onChange={e => setMapping({ ...mapping, hasHeader: e.target.checked })} className="h-4 w-4 text-teal-500 rounded border-slate-500 bg-slate-700 focus:ring-teal-400" />
+            <span className="text-sm text-slate-300">La primera fila es la cabecera</span>
+          </label>
+          <p className="text-xs text-slate-400 mt-2">
+            {parsed.rows.length} movimientos leídos · {matches.length - unmatched.length} conciliados · {unmatched.length} sin conciliar
+            {parsed.skipped > 0 && ` · ${parsed.skipped} filas ignoradas (fecha o importe no válidos)`}
+          </p>
+        </Card>
+      )}
+
+      {matches.length > 0 && (
+        <Card>
+          <h3 className="text-lg font-semibold text-slate-100 mb-3">Movimientos</h3>
+          <ul className="space-y-2">
+            {matches.map(({ row, expense }) => (
+              <li key={row.index} className={`flex items-center justify-between text-sm p-2 rounded-md ${expense ? 'bg-green-900/30' : 'bg-slate-700/50'}`}>
+                <div className="flex items-center space-x-3">
+                  {!expense && (
+                    <input type="checkbox" checked={selectedRows.has(row.index)} onChange={() => toggleRow(row.index)} className="h-4 w-4 text-teal-500 rounded border-slate-500 bg-slate-700 focus:ring-teal-400" aria-label={`Crear ${row.isCredit ? 'reembolso' : 'gasto'} para ${row.merchant}`} />
+                  )}
+                  <div>
+                    <p className="text-slate-100">
+                      {row.isCredit && <span className="mr-1 text-xs font-medium text-green-400">{EXPENSE_KIND_LABELS.refund}:</span>}
+                      {row.merchant || 'Sin concepto'}
+                    </p>
+                    <p className="text-xs text-slate-400">
+                      {formatDate(row.date)}
+                      {expense ? <span className="text-green-400"> · Conciliado con "{expense.description || getCategoryName(trip, expense.category)}" ({formatDate(expense.date, { day: 'numeric', month: 'short' })}, {getPayerName(trip, expense.paidBy)})</span> : <span className="text-amber-400"> · Sin gasto registrado</span>}
+                    </p>
+                  </div>
+                </div>
+                <span className={`font-medium flex-shrink-0 ml-2 ${row.isCredit ? 'text-green-400' : 'text-slate-100'}`}>{formatCurrency(row.isCredit ? -row.amount : row.amount, baseCurrency)}</span>
+              </li>
+            ))}
+          </ul>
+        </Card>
+      )}
+
+      {unlistedAccountExpenses.length > 0 && (
+        <Card>
+          <h3 className="text-lg font-semibold text-slate-100 mb-2">Gastos con {getPaymentAccountName(trip, accountId)} que no aparecen en el extracto</h3>
+          <ul className="space-y-1">
+            {unlistedAccountExpenses.map(exp => (
+              <li key={exp.id} className="text-sm text-slate-300 flex justify-between">
+                <span>{formatDate(exp.date, { day: 'numeric', month: 'short' })} · {exp.description || getCategoryName(trip, exp.category)} ({getPayerName(trip, exp.paidBy)})</span>
+                <span>{formatCurrency(exp.amount, getExpenseCurrency(exp, trip))}</span>
+              </li>
+            ))}
+          </ul>
+        </Card>
+      )}
+
+      {unmatched.length > 0 && (
+        <Card>
+          <h3 className="text-lg font-semibold text-slate-100 mb-3">Crear gastos desde movimientos sin conciliar</h3>
+          {unmatched.some(m => m.row.isCredit) && <p className="text-xs text-slate-400 mb-3">Los ingresos en la cuenta se registran como reembolsos recibidos por la misma persona.</p>}
+          <div className="grid grid-cols-2 gap-4">
+            <Select label="Pagado por" value={newExpenseDefaults.paidBy} onChange={e => setNewExpenseDefaults(prev => ({ ...prev, paidBy: e.target.value }))}>
+              {trip.participants.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </Select>
+            <Select label="Categoría" value={newExpenseDefaults.category} onChange={e => setNewExpenseDefaults(prev => ({ ...prev, category: e.target.value }))}>
+              {categories.map(cat => <option key={cat.id} value={cat.id}>{cat.name}</option>)}
+            </Select>
+          </div>
+          <div className="flex justify-between items-center mt-4">
+            <Button type="button" variant="link" size="sm" className="p-0 text-xs" onClick={() => setSelectedRows(new Set(unmatched.map(m => m.row.index)))}>Seleccionar todos</Button>
+            <Button type="button" onClick={handleCreateExpenses} disabled={selectedRows.size === 0}>Crear {selectedRows.size} {selectedRows.size === 1 ? 'movimiento' : 'movimientos'}</Button>
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+// --- Calendar View for Gastos ---
+// Heatmap shades for each HeatLevel, relative to the trip's daily average
+const HEAT_LEVEL_CLASSES = ['', 'bg-emerald-900/40', 'bg-emerald-700/50', 'bg-amber-600/40', 'bg-red-700/50'];
+const HEAT_LEVEL_LABELS = ['Sin gastos', 'Menos de la mitad de la media', 'Por debajo de la media', 'Hasta 1,5 veces la media', 'Más de 1,5 veces la media'];
+
+// Drag data with the day of a multi-day expense it was grabbed from
+const DRAG_FROM_DATE_TYPE = 'application/x-expense-day';
+
+const GastosCalendarView: React.FC<{ expenses: Expense[]; currency: string }> = ({ expenses, currency }) => {
+  const { trip, isReadOnly, expenses: tripExpenses, updateExpense } = useActiveTrip();
+  const [viewMode, setViewMode] = useState<'month' | 'week'>('month');
+  const [currentMonth, setCurrentMonth] = useState(new Date());
+  const [currentWeek, setCurrentWeek] = useState(() => getWeekDays(new Date().toISOString().split('T')[0]));
+  const [selectedDateKey, setSelectedDateKey] = useState<string | null>(null);
+  const [dragOverDate, setDragOverDate] = useState<string | null>(null);
+
+
+  // Multi-day expenses are prorated, so each day only carries its own portion.
+  const expensesByDate = useMemo(() => getPortionsByDay(expenses, currency), [expenses, currency]);
+  const dailyAverage = useMemo(() => getDailyAverage(expensesByDate), [expensesByDate]);
+  const selectedDateExpenses = selectedDateKey ? expensesByDate.get(selectedDateKey) || [] : null;
+  const getDayTotal = (dateStr: string) => (expensesByDate.get(dateStr) || []).reduce((sum, portion) => sum + portion.amount, 0);
+
+  const changeMonth = (offset: number) => {
+    setCurrentMonth(prev => new Date(prev.getFullYear(), prev.getMonth() + offset, 1));
+    setSelectedDateKey(null);
+  };
+
+  const changeWeek = (offset: number) => {
+    setCurrentWeek(prev => getWeekDays(addDays(prev[0], offset * 7)));
+    setSelectedDateKey(null);
+  };
+
+  // The calendar shows base-currency copies, so move the stored expense rather than the one displayed.
+  // `fromDate` is the day of the expense that was grabbed, which lands on `dateStr`; defaults to its first day.
+  const moveExpense = (expenseId: string, dateStr: string, fromDate?: string) => {
+    const original = tripExpenses.find(exp => exp.id === expenseId);
+    if (!original || !dateStr) return;
+    const startDate = fromDate ? addDays(original.date, getDaysBetween(fromDate, dateStr)) : dateStr;
+    if (original.date === startDate) return;
+    updateExpense(moveExpenseToDate(original, startDate));
+    setSelectedDateKey(dateStr);
+  };
+
+  // Expenses from the selected day's list can be dragged onto any day of the month or week. A multi-day
+  // expense moves by as many days as it was dragged, whichever of its days it was grabbed from.
+  const getDropProps = (dateStr: string) => isReadOnly ? {} : ({
+    onDragOver: (e: React.DragEvent) => { e.preventDefault(); setDragOverDate(dateStr); },
+    onDragLeave: () => setDragOverDate(prev => prev === dateStr ? null : prev),
+    onDrop: (e: React.DragEvent) => { e.preventDefault(); setDragOverDate(null); moveExpense(e.dataTransfer.getData('text/plain'), dateStr, e.dataTransfer.getData(DRAG_FROM_DATE_TYPE) || undefined); },
+  });
+
+  const today = new Date().toISOString().split('T')[0];
+
+  const renderCalendarDays = () => {
+    const year = currentMonth.getFullYear();
+    const month = currentMonth.getMonth();
+    const firstDayOfMonth = new Date(year, month, 1).getDay(); // 0 (Sun) - 6 (Sat)
+    const daysInMonth = new Date(year, month + 1, 0).getDate();
+    const daysArray = [];
+
+    const normalizedFirstDay = (firstDayOfMonth === 0) ? 6 : firstDayOfMonth -1;
+
+    for (let i = 0; i < normalizedFirstDay; i++) {
+      daysArray.push(<div key={`empty-${i}`} className="border border-slate-700 p-2 h-24"></div>);
+    }
+
+    for (let day = 1; day <= daysInMonth; day++) {
+      const dateStr = `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+      const hasExpenses = expensesByDate.has(dateStr);
+      const dayTotal = getDayTotal(dateStr);
+      const isToday = dateStr === today;
+      const isSelected = dateStr === selectedDateKey;
+
+
+      daysArray.push(
+        <div 
+          key={day} 
+          className={`border border-slate-700 p-2 h-24 flex flex-col cursor-pointer hover:bg-slate-700 relative transition-colors ${HEAT_LEVEL_CLASSES[getHeatLevel(dayTotal, dailyAverage)]} ${isToday ? 'border-teal-400' : ''} ${isSelected ? 'ring-2 ring-teal-500' : ''} ${dragOverDate === dateStr ? 'ring-2 ring-amber-400' : ''}`}
+          onClick={() => setSelectedDateKey(dateStr)}
+          {...getDropProps(dateStr)}
+          role="button"
+          tabIndex={0}
+          aria-label={`Ver gastos del ${day} de ${currentMonth.toLocaleDateString('es-ES', { month: 'long' })}`}
+        >
+          <span className={`font-medium ${isToday ? 'text-teal-300' : 'text-slate-200'}`}>{day}</span>
+          {hasExpenses && (
+            <div className="mt-auto self-center flex flex-col items-center">
+              <span className="text-[10px] text-slate-200 mt-0.5 hidden sm:block">{formatCurrency(dayTotal, currency)}</span>
+            </div>
+          )}
+        </div>
+      );
+    }
+    return daysArray;
+  };
+
+  const renderWeek = () => {
+    const portionsByDay = currentWeek.map(dateStr => expensesByDate.get(dateStr) || []);
+    const totalsByDay = portionsByDay.map(getTotalsByCategory);
+    const categoryIds = getTripCategories(trip).map(cat => cat.id)
+      .concat(totalsByDay.flatMap(totals => Object.keys(totals)))
+      .filter((id, i, all) => all.indexOf(id) === i && totalsByDay.some(totals => totals[id]));
+    return (
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs text-slate-300 border-collapse">
+          <thead>
+            <tr>
+              <th className="p-2 text-left font-medium text-slate-400">Categoría</th>
+              {currentWeek.map(dateStr => (
+                <th key={dateStr} {...getDropProps(dateStr)} onClick={() => setSelectedDateKey(dateStr)}
+                  className={`p-2 font-medium cursor-pointer border border-slate-700 ${HEAT_LEVEL_CLASSES[getHeatLevel(getDayTotal(dateStr), dailyAverage)]} ${dateStr === today ? 'text-teal-300' : 'text-slate-200'} ${dateStr === selectedDateKey ? 'ring-2 ring-teal-500' : ''} ${dragOverDate === dateStr ? 'ring-2 ring-amber-400' : ''}`}>
+                  {formatDate(dateStr, { weekday: 'short', day: 'numeric' })}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {categoryIds.map(id => (
+              <tr key={id}>
+                <td className="p-2 text-slate-200 whitespace-nowrap">{getCategoryName(trip, id)}</td>
+                {totalsByDay.map((totals, i) => <td key={currentWeek[i]} className="p-2 text-right border border-slate-700">{totals[id] ? formatCurrency(totals[id], currency) : ''}</td>)}
+              </tr>
+            ))}
+            {categoryIds.length === 0 && (
+              <tr><td colSpan={8} className="p-4 text-center text-slate-400">No hay gastos esta semana.</td></tr>
+            )}
+          </tbody>
+          <tfoot>
+            <tr className="font-semibold text-slate-100">
+              <td className="p-2">Total</td>
+              {currentWeek.map(dateStr => <td key={dateStr} className="p-2 text-right border border-slate-700">{formatCurrency(getDayTotal(dateStr), currency)}</td>)}
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    );
+  };
+  
+  return (
+    <Card>
+      <div className="flex justify-center mb-4">
+        <div className="inline-flex rounded-md border border-slate-600 overflow-hidden">
+          {(['month', 'week'] as const).map(mode => (
+            <button key={mode} type="button" onClick={() => { setViewMode(mode); setSelectedDateKey(null); }}
+              className={`px-4 py-1.5 text-sm ${viewMode === mode ? 'bg-teal-600 text-white' : 'bg-slate-800 text-slate-300 hover:bg-slate-700'}`}>
+              {mode === 'month' ? 'Mes' : 'Semana'}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="flex justify-between items-center mb-4">
+        <Button variant="ghost" onClick={() => viewMode === 'month' ? changeMonth(-1) : changeWeek(-1)} iconLeft={<ChevronLeftIcon className="w-5 h-5" />} aria-label={viewMode === 'month' ? 'Mes anterior' : 'Semana anterior'}/>
+        <h3 className="text-lg font-semibold text-slate-100">
+          {viewMode === 'month'
+            ? currentMonth.toLocaleDateString('es-ES', { month: 'long', year: 'numeric' })
+            : `${formatDate(currentWeek[0], { day: 'numeric', month: 'short' })} – ${formatDate(currentWeek[6], { day: 'numeric', month: 'short', year: 'numeric' })}`}
+        </h3>
+        <Button variant="ghost" onClick={() => viewMode === 'month' ? changeMonth(1) : changeWeek(1)} iconLeft={<ChevronRightIcon className="w-5 h-5" />} aria-label={viewMode === 'month' ? 'Mes siguiente' : 'Semana siguiente'}/>
+      </div>
+      {viewMode === 'month' ? (
+        <div className="grid grid-cols-7 gap-px bg-slate-700">
+          {['Lun', 'Mar', 'Mié', 'Jue', 'Vie', 'Sáb', 'Dom'].map(day => (
+            <div key={day} className="text-center font-medium text-slate-400 p-2 bg-slate-800 text-xs">{day}</div>
+          ))}
+          {renderCalendarDays()}
+        </div>
+      ) : renderWeek()}
+      {dailyAverage > 0 && (
+        <div className="flex flex-wrap items-center gap-3 mt-3 text-xs text-slate-400">
+          <span>Media diaria: {formatCurrency(dailyAverage, currency)}</span>
+          {HEAT_LEVEL_CLASSES.slice(1).map((heatClass, i) => (
+            <span key={heatClass} className="flex items-center"><span className={`inline-block w-3 h-3 rounded-sm mr-1 border border-slate-600 ${heatClass}`}></span>{HEAT_LEVEL_LABELS[i + 1]}</span>
+          ))}
+        </div>
+      )}
+      {selectedDateExpenses && selectedDateKey && (
+        <div className="mt-4 p-4 bg-slate-700/50 rounded-md">
+          <h4 className="text-md font-semibold text-slate-100 mb-2">
+            Gastos para {formatDate(selectedDateKey, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}:
+          </h4>
+          {selectedDateExpenses.length > 0 ? (
+            <>
+              <ul className="space-y-2">
+                {selectedDateExpenses.map(({ expense: exp, amount, dayIndex, totalDays }) => (
+                  <li key={exp.id} draggable={!isReadOnly} onDragStart={e => { e.dataTransfer.setData('text/plain', exp.id); e.dataTransfer.setData(DRAG_FROM_DATE_TYPE, selectedDateKey); }} className={`text-sm text-slate-300 flex justify-between items-center gap-2 ${isReadOnly ? '' : 'cursor-grab'}`}>
+                    <span>
+                      {isCreditEntry(exp) && <span className="mr-1 text-xs font-medium text-green-400">{EXPENSE_KIND_LABELS[exp.kind!]}:</span>}
+                      {exp.description || getCategoryName(trip, exp.category)} ({exp.kind === 'refund' ? 'recibido por' : 'por'} {getPayerName(trip, exp.paidBy)})
+                      {totalDays > 1 && <span className="text-xs text-slate-400 ml-1">día {dayIndex + 1} de {totalDays}, total {formatCurrency(exp.amount, currency)}</span>}
+                    </span>
+                    <span className="flex items-center gap-2 flex-shrink-0">
+                      <span className={`font-medium ${amount < 0 ? 'text-green-400' : 'text-slate-100'}`}>{formatCurrency(amount, currency)}</span>
+                      {!isReadOnly && (
+                        <input type="date" value={exp.date} onChange={e => moveExpense(exp.id, e.target.value)} title="Mover a otro día" aria-label={`Mover ${exp.description || 'gasto'} a otro día`}
+                          className="px-1 py-0.5 text-xs border border-slate-600 rounded bg-slate-800 text-slate-200" />
+                      )}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              {!isReadOnly && <p className="text-xs text-slate-400 mt-2">Arrastra un gasto a otro día del calendario o cambia su fecha para moverlo.</p>}
+              <h5 className="text-sm font-semibold text-slate-200 mt-4 mb-1">Por participante</h5>
+              <ul className="space-y-1">
+                {Object.entries(getTotalsByParticipant(selectedDateExpenses, trip.participants)).map(([id, totals]) => (
+                  <li key={id} className="text-xs text-slate-300 flex justify-between">
+                    <span>{getPayerName(trip, id)}</span>
+                    <span>pagado {formatCurrency(totals.paid, currency)} · consumido {formatCurrency(totals.consumed, currency)}</span>
+                  </li>
+                ))}
+              </ul>
+            </>
+          ) : (
+            <p className="text-slate-400 text-sm">No hay gastos registrados para este día.</p>
+          )}
+           <Button variant="link" size="sm" onClick={() => setSelectedDateKey(null)} className="mt-2 text-xs">Cerrar</Button>
+        </div>
+      )}
+       {!selectedDateKey && expensesByDate.size > 0 && <p className="text-xs text-slate-400 mt-2">Haz clic en un día para ver los gastos.</p>}
+       {!selectedDateKey && expensesByDate.size === 0 && <p className="text-xs text-slate-400 mt-2">No hay gastos en el mes actual.</p>}
+    </Card>
+  );
+};
+
+
+// --- RECUERDOS Section ---
+const RecuerdosView: React.FC = () => {
+  const { trip, isReadOnly, mediaItems, addMediaItem, deleteMediaItem, currentUser } = useActiveTrip();
+  const [file, setFile] = useState<File | null>(null);
+  const [description, setDescription] = useState('');
+  const [preview, setPreview] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) {
+      const selectedFile = e.target.files[0];
+      setFile(selectedFile);
       const reader = new FileReader();
       reader.onloadend = () => setPreview(reader.result as string);
       reader.readAsDataURL(selectedFile);
@@ -1160,23 +3119,25 @@ const RecuerdosView: React.FC = () => {
 
   return (
     <div className="space-y-6">
-      <Card>
-        <h2 className="text-xl font-semibold text-slate-100 mb-4">Añadir Recuerdo</h2>
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <Input type="file" label="Archivo (Imagen o Video)" accept="image/*,video/*" onChange={handleFileChange} ref={fileInputRef} required />
-          {preview && (
-            <div className="mt-2">
-              {file?.type.startsWith('image/') ? (
-                <img src={preview} alt="Previsualización" className="max-h-48 rounded-md border border-slate-600" />
-              ) : (
-                <video src={preview} controls className="max-h-48 rounded-md border border-slate-600 w-full" />
-              )}
-            </div>
-          )}
-          <Input type="text" label="Descripción (Opcional)" value={description} onChange={e => setDescription(e.target.value)} placeholder="Ej: Atardecer en la playa" />
-          <Button type="submit" disabled={!file}>Subir Recuerdo</Button>
-        </form>
-      </Card>
+      {!isReadOnly && (
+        <Card>
+          <h2 className="text-xl font-semibold text-slate-100 mb-4">Añadir Recuerdo</h2>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <Input type="file" label="Archivo (Imagen o Video)" accept="image/*,video/*" onChange={handleFileChange} ref={fileInputRef} required />
+            {preview && (
+              <div className="mt-2">
+                {file?.type.startsWith('image/') ? (
+                  <img src={preview} alt="Previsualización" className="max-h-48 rounded-md border border-slate-600" />
+                ) : (
+                  <video src={preview} controls className="max-h-48 rounded-md border border-slate-600 w-full" />
+                )}
+              </div>
+            )}
+            <Input type="text" label="Descripción (Opcional)" value={description} onChange={e => setDescription(e.target.value)} placeholder="Ej: Atardecer en la playa" />
+            <Button type="submit" disabled={!file}>Subir Recuerdo</Button>
+          </form>
+        </Card>
+      )}
       
       {mediaItems.length === 0 ? (
         <Card className="text-center py-10">
@@ -1210,7 +3171,7 @@ const RecuerdosView: React.FC = () => {
                 <p className="text-xs text-slate-500">Subido por: {item.uploader} el {formatDate(item.uploadedAt.split('T')[0], {day:'numeric', month:'short'})}</p>
                 <Button variant="link" size="sm" onClick={() => { const a = document.createElement('a'); a.href = item.dataUrl; a.download = item.fileName; a.click(); }} className="mt-1 p-0 text-xs">Descargar</Button>
               </div>
-              {item.uploader === currentUser.username && (
+              {item.uploader === currentUser.username && !isReadOnly && (
                 <Button variant="danger" size="sm" onClick={() => deleteMediaItem(item.id)} className="absolute top-2 right-2 p-1 opacity-0 group-hover:opacity-100 transition-opacity" aria-label="Eliminar Recuerdo">
                   <TrashIcon className="w-4 h-4" />
                 </Button>
@@ -1226,7 +3187,7 @@ const RecuerdosView: React.FC = () => {
 
 // --- INFO Section ---
 const InfoView: React.FC = () => {
-  const { trip, infoItems, addInfoItem, updateInfoItem, deleteInfoItem, currentUser } = useActiveTrip();
+  const { trip, isReadOnly, infoItems, addInfoItem, updateInfoItem, deleteInfoItem, currentUser } = useActiveTrip();
   const [showForm, setShowForm] = useState(false);
   const [newItem, setNewItem] = useState({ title: '', type: INFO_ITEM_TYPES[0], details: '', date: '', time: '', file: null as File | null });
   const [filePreview, setFilePreview] = useState<string | null>(null);
@@ -1331,11 +3292,13 @@ const InfoView: React.FC = () => {
   
   return (
     <div className="space-y-6">
-      <div className="flex justify-end">
-        <Button onClick={() => setShowForm(s => { if(s) resetFormState(); return !s; })} iconLeft={showForm ? <MinusIcon className="w-5 h-5"/> : <PlusIcon className="w-5 h-5"/>}>
-          {showForm ? 'Cancelar' : 'Añadir Información'}
-        </Button>
-      </div>
+      {!isReadOnly && (
+        <div className="flex justify-end">
+          <Button onClick={() => setShowForm(s => { if(s) resetFormState(); return !s; })} iconLeft={showForm ? <MinusIcon className="w-5 h-5"/> : <PlusIcon className="w-5 h-5"/>}>
+            {showForm ? 'Cancelar' : 'Añadir Información'}
+          </Button>
+        </div>
+      )}
 
       {showForm && (
         <Card>
@@ -1429,10 +3392,10 @@ const InfoView: React.FC = () => {
               </div>
               <div className="flex flex-col items-end space-y-2 flex-shrink-0 ml-2">
                 <label className="flex items-center space-x-1 cursor-pointer">
-                  <Input type="checkbox" checked={item.isCompleted} onChange={() => toggleComplete(item)} className="form-checkbox h-5 w-5 text-teal-500 rounded border-slate-500 bg-slate-700 focus:ring-teal-400 focus:ring-offset-slate-800" aria-label="Marcar como completado"/>
+                  <Input type="checkbox" checked={item.isCompleted} disabled={isReadOnly} onChange={() => toggleComplete(item)} className="form-checkbox h-5 w-5 text-teal-500 rounded border-slate-500 bg-slate-700 focus:ring-teal-400 focus:ring-offset-slate-800" aria-label="Marcar como completado"/>
                   <span className="text-xs text-slate-300 select-none">Hecho</span>
                 </label>
-                {item.addedBy === currentUser.username && (
+                {item.addedBy === currentUser.username && !isReadOnly && (
                   <Button variant="ghost" size="sm" onClick={() => deleteInfoItem(item.id)} className="p-1 text-red-400 hover:text-red-500" aria-label="Eliminar">
                     <TrashIcon className="w-4 h-4"/>
                   </Button>
@@ -1449,7 +3412,7 @@ const InfoView: React.FC = () => {
 
 // --- MAPAS Section ---
 const MapasView: React.FC = () => {
-  const { trip, markedMapLocations, addMarkedMapLocation, deleteMarkedMapLocation } = useActiveTrip();
+  const { trip, isReadOnly, markedMapLocations, addMarkedMapLocation, deleteMarkedMapLocation } = useActiveTrip();
   const [userLocation, setUserLocation] = useState<{latitude: number, longitude: number} | null>(null);
   const [locationError, setLocationError] = useState<string | null>(null);
   const [customSearchQuery, setCustomSearchQuery] = useState('');
@@ -1498,6 +3461,7 @@ const MapasView: React.FC = () => {
     const query = customSearchQuery.trim();
     if (query) {
       openGoogleMaps(query);
+      if (isReadOnly) return;
       setShowSaveLocationModal(query); // Offer to save this search
       setSaveLocationName(query); // Pre-fill name with query
     }
@@ -1584,14 +3548,16 @@ const MapasView: React.FC = () => {
                   >
                     <MapPinIcon className="w-5 h-5"/>
                   </button>
-                  <button 
-                    onClick={() => deleteMarkedMapLocation(loc.id)} 
-                    title="Eliminar lugar guardado" 
-                    aria-label="Eliminar lugar guardado"
-                    className="p-1.5 text-slate-300 hover:text-red-500 focus:outline-none focus:ring-2 focus:ring-red-600 focus:ring-offset-2 focus:ring-offset-slate-800 rounded-md transition-colors"
-                  >
-                    <TrashIcon className="w-5 h-5"/>
-                  </button>
+                  {!isReadOnly && (
+                    <button 
+                      onClick={() => deleteMarkedMapLocation(loc.id)} 
+                      title="Eliminar lugar guardado" 
+                      aria-label="Eliminar lugar guardado"
+                      className="p-1.5 text-slate-300 hover:text-red-500 focus:outline-none focus:ring-2 focus:ring-red-600 focus:ring-offset-2 focus:ring-offset-slate-800 rounded-md transition-colors"
+                    >
+                      <TrashIcon className="w-5 h-5"/>
+                    </button>
+                  )}
                 </div>
               </div>
             ))}
@@ -1608,7 +3574,7 @@ const MapasView: React.FC = () => {
 
 // --- CHAT Section ---
 const ChatView: React.FC = () => {
-  const { trip, chatMessages, addChatMessage, currentUser } = useActiveTrip();
+  const { trip, isReadOnly, chatMessages, addChatMessage, currentUser } = useActiveTrip();
   const [newMessage, setNewMessage] = useState('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
   
@@ -1644,24 +3610,26 @@ const ChatView: React.FC = () => {
         <div ref={messagesEndRef} />
         </div>
       </Card>
-      <form onSubmit={handleSubmit} className="flex space-x-2">
-        <Input 
-          type="text" 
-          value={newMessage} 
-          onChange={e => setNewMessage(e.target.value)} 
-          placeholder="Escribe un mensaje..." 
-          className="flex-grow"
-          aria-label="Nuevo mensaje"
-        />
-        <Button type="submit" iconLeft={<PaperAirplaneIcon className="w-5 h-5"/>} aria-label="Enviar mensaje" />
-      </form>
+      {!isReadOnly && (
+        <form onSubmit={handleSubmit} className="flex space-x-2">
+          <Input 
+            type="text" 
+            value={newMessage} 
+            onChange={e => setNewMessage(e.target.value)} 
+            placeholder="Escribe un mensaje..." 
+            className="flex-grow"
+            aria-label="Nuevo mensaje"
+          />
+          <Button type="submit" iconLeft={<PaperAirplaneIcon className="w-5 h-5"/>} aria-label="Enviar mensaje" />
+        </form>
+      )}
     </div>
   );
 };
 
 // --- ITINERARIO Section ---
 const ItinerarioView: React.FC = () => {
-  const { trip, itineraryItems, addItineraryItem, updateItineraryItem, deleteItineraryItem, currentUser } = useActiveTrip();
+  const { trip, isReadOnly, itineraryItems, addItineraryItem, updateItineraryItem, deleteItineraryItem, currentUser } = useActiveTrip();
   const [showForm, setShowForm] = useState(false);
   const todayDate = new Date().toISOString().split('T')[0];
   const [newItem, setNewItem] = useState({ title: '', date: todayDate, time: '', category: ITINERARY_ITEM_CATEGORIES[0], notes: '', location: '' });
@@ -1710,11 +3678,13 @@ const ItinerarioView: React.FC = () => {
 
   return (
     <div className="space-y-6">
-      <div className="flex justify-end">
-        <Button onClick={() => setShowForm(s => !s)} iconLeft={showForm ? <MinusIcon className="w-5 h-5"/> : <PlusIcon className="w-5 h-5"/>}>
-          {showForm ? 'Cancelar Nuevo' : 'Añadir al Itinerario'}
-        </Button>
-      </div>
+      {!isReadOnly && (
+        <div className="flex justify-end">
+          <Button onClick={() => setShowForm(s => !s)} iconLeft={showForm ? <MinusIcon className="w-5 h-5"/> : <PlusIcon className="w-5 h-5"/>}>
+            {showForm ? 'Cancelar Nuevo' : 'Añadir al Itinerario'}
+          </Button>
+        </div>
+      )}
 
       {showForm && (
         <Card>
@@ -1760,10 +3730,10 @@ const ItinerarioView: React.FC = () => {
                     </div>
                     <div className="flex flex-col items-end space-y-2 flex-shrink-0 ml-2">
                       <label className="flex items-center space-x-1 cursor-pointer">
-                        <Input type="checkbox" checked={item.isCompleted} onChange={() => toggleComplete(item)} className="form-checkbox h-5 w-5 text-teal-500 rounded border-slate-500 bg-slate-700 focus:ring-teal-400 focus:ring-offset-slate-800" aria-label="Marcar como completado"/>
+                        <Input type="checkbox" checked={item.isCompleted} disabled={isReadOnly} onChange={() => toggleComplete(item)} className="form-checkbox h-5 w-5 text-teal-500 rounded border-slate-500 bg-slate-700 focus:ring-teal-400 focus:ring-offset-slate-800" aria-label="Marcar como completado"/>
                         <span className="text-xs text-slate-300 select-none">Hecho</span>
                       </label>
-                      {item.addedBy === currentUser.username && (
+                      {item.addedBy === currentUser.username && !isReadOnly && (
                         <Button variant="ghost" size="sm" onClick={() => deleteItineraryItem(item.id)} className="p-1 text-red-400 hover:text-red-500" aria-label="Eliminar del itinerario">
                           <TrashIcon className="w-4 h-4"/>
                         </Button>
@@ -1780,6 +3750,183 @@ const ItinerarioView: React.FC = () => {
   );
 };
 
+// --- AJUSTES Section ---
+const TripSettingsView: React.FC = () => {
+  const { trip, isReadOnly, updateTrip, updateTripStatus, mergeParticipant, removeParticipant, expenses, settlementTransfers } = useActiveTrip();
+  const today = new Date().toISOString().split('T')[0];
+  const getTripDetailsForm = () => ({
+    name: trip.name, startDate: trip.startDate || '', endDate: trip.endDate || '', destinations: (trip.destinations || []).join(', '), coverImage: trip.coverImage,
+  });
+  const [tripDetails, setTripDetails] = useState(getTripDetailsForm);
+  const [tripDetailsError, setTripDetailsError] = useState('');
+  // Someone joining a trip that already has expenses shouldn't share them, so they arrive today by default
+  const getEmptyParticipantForm = () => ({ name: '', arrivalDate: expenses.length > 0 ? today : '' });
+  const [newParticipant, setNewParticipant] = useState(getEmptyParticipantForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editedName, setEditedName] = useState('');
+  const [removingId, setRemovingId] = useState<string | null>(null);
+  const [reassignTo, setReassignTo] = useState('');
+  const [participantError, setParticipantError] = useState('');
+  const removingName = removingId ? getParticipantName(trip, removingId) : '';
+  const removingUsage = removingId ? getParticipantUsage(removingId, trip, expenses, settlementTransfers) : null;
+
+  const handleCoverImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onloadend = () => setTripDetails(prev => ({ ...prev, coverImage: reader.result as string }));
+    reader.readAsDataURL(file);
+  };
+
+  const handleSaveTripDetails = (e: React.FormEvent) => {
+    e.preventDefault();
+    const validationError = validateTripName(tripDetails.name) || validateTripDates(tripDetails.startDate, tripDetails.endDate);
+    if (validationError) { setTripDetailsError(validationError); return; }
+    setTripDetailsError('');
+    const destinations = parseDestinations(tripDetails.destinations);
+    updateTrip({
+      ...trip, name: tripDetails.name.trim(), startDate: tripDetails.startDate || undefined, endDate: tripDetails.endDate || undefined,
+      destinations: destinations.length > 0 ? destinations : undefined, coverImage: tripDetails.coverImage,
+    });
+  };
+
+  const handleAddParticipant = (e: React.FormEvent) => {
+    e.preventDefault();
+    const validationError = validateParticipantName(newParticipant.name);
+    if (validationError) { setParticipantError(validationError); return; }
+    setParticipantError('');
+    updateTrip({ ...trip, participants: [...trip.participants, { ...createParticipant(newParticipant.name, trip.participants.length), arrivalDate: newParticipant.arrivalDate || undefined }] });
+    setNewParticipant(getEmptyParticipantForm());
+  };
+
+  const handleStartRename = (participant: Participant) => {
+    setEditingId(participant.id);
+    setEditedName(participant.name);
+    setRemovingId(null);
+    setParticipantError('');
+  };
+
+  // Everything else points at the participant's id, so only the label changes
+  const handleRename = () => {
+    if (!editingId) return;
+    const validationError = validateParticipantName(editedName);
+    if (validationError) { setParticipantError(validationError); return; }
+    setParticipantError('');
+    updateTrip(renameParticipant(trip, editingId, editedName));
+    setEditingId(null);
+  };
+
+  const handleStartRemove = (participant: Participant) => {
+    setEditingId(null);
+    setParticipantError('');
+    if (trip.participants.length <= 1) { alert("Un viaje necesita al menos un participante."); return; }
+    if (isParticipantInUse(getParticipantUsage(participant.id, trip, expenses, settlementTransfers))) {
+      setRemovingId(participant.id);
+      setReassignTo('');
+      return;
+    }
+    if (!window.confirm(`¿Quitar a ${participant.name} del viaje?`)) return;
+    removeParticipant(participant.id);
+  };
+
+  // Moving everything to another participant is the only way to remove someone money still depends on
+  const handleReassignAndRemove = () => {
+    if (!removingId || !removingUsage) return;
+    if (!reassignTo) { setParticipantError(`Elige a quién pasan los datos de ${removingName}.`); return; }
+    if (!window.confirm(`${describeParticipantUsage(removingUsage)} de ${removingName} pasarán a ${getParticipantName(trip, reassignTo)}, y ${removingName} dejará el viaje. ¿Continuar?`)) return;
+    mergeParticipant(removingId, reassignTo);
+    setRemovingId(null);
+    setParticipantError('');
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <h2 className="text-xl font-semibold text-slate-100 mb-4">Viaje</h2>
+        {!isReadOnly && (
+          <form onSubmit={handleSaveTripDetails} className="space-y-4">
+            <Input label="Nombre del viaje" value={tripDetails.name} onChange={e => setTripDetails(prev => ({ ...prev, name: e.target.value }))} />
+            <div className="grid grid-cols-2 gap-4">
+              <Input label="Ida (Opcional)" type="date" value={tripDetails.startDate} onChange={e => setTripDetails(prev => ({ ...prev, startDate: e.target.value }))} />
+              <Input label="Vuelta (Opcional)" type="date" value={tripDetails.endDate} min={tripDetails.startDate || undefined} onChange={e => setTripDetails(prev => ({ ...prev, endDate: e.target.value }))} />
+            </div>
+            <Input label="Destinos (Opcional)" value={tripDetails.destinations} onChange={e => setTripDetails(prev => ({ ...prev, destinations: e.target.value }))} placeholder="Ej: Lisboa, Oporto (separados por comas)" />
+            <div>
+              <Input label="Portada (Opcional)" type="file" accept="image/*" onChange={handleCoverImageChange} />
+              {tripDetails.coverImage && (
+                <div className="mt-2 flex items-center space-x-3">
+                  <img src={tripDetails.coverImage} alt="Portada del viaje" className="h-20 rounded-md object-cover" />
+                  <Button type="button" variant="link" size="sm" className="p-0 text-xs text-red-400" onClick={() => setTripDetails(prev => ({ ...prev, coverImage: undefined }))}>Quitar portada</Button>
+                </div>
+              )}
+            </div>
+            {tripDetailsError && <p className="text-sm text-red-400">{tripDetailsError}</p>}
+            <Button type="submit" variant="secondary">Guardar</Button>
+          </form>
+        )}
+        <div className={isReadOnly ? '' : 'border-t border-slate-700 mt-4 pt-4'}>
+          <Select label="Estado" value={trip.status || ''} onChange={e => updateTripStatus((e.target.value || undefined) as TripStatus | undefined)}>
+            <option value="">Según las fechas ({TRIP_STATUS_LABELS[getTripStatus({ ...trip, status: undefined })].toLowerCase()})</option>
+            {(Object.keys(TRIP_STATUS_LABELS) as TripStatus[]).map(status => <option key={status} value={status}>{TRIP_STATUS_LABELS[status]}</option>)}
+          </Select>
+          <p className="text-xs text-slate-400 mt-1">Un viaje archivado solo se puede consultar: no admite gastos, pagos ni cambios hasta que se le cambie el estado.</p>
+        </div>
+      </Card>
+      <Card>
+        <h2 className="text-xl font-semibold text-slate-100 mb-2">Participantes</h2>
+        <p className="text-xs text-slate-400 mb-3">Al cambiar un nombre, sus gastos, repartos, pagos y aportaciones al bote pasan a mostrar el nuevo.</p>
+        <ul className="space-y-2 mb-4">
+          {trip.participants.map(p => (
+            <li key={p.id} className="text-sm">
+              {editingId === p.id ? (
+                <div className="flex items-end space-x-2">
+                  <Input label="Nuevo nombre" value={editedName} onChange={e => setEditedName(e.target.value)} autoFocus />
+                  <Button type="button" size="sm" onClick={handleRename} disabled={!editedName.trim() || editedName.trim() === p.name}>Guardar</Button>
+                  <Button type="button" size="sm" variant="ghost" onClick={() => setEditingId(null)}>Cancelar</Button>
+                </div>
+              ) : (
+                <div className="flex justify-between items-center">
+                  <span className="text-slate-200">{p.name}</span>
+                  {!isReadOnly && (
+                    <div className="flex items-center space-x-1">
+                      <Button variant="ghost" size="sm" onClick={() => handleStartRename(p)} className="p-1" aria-label={`Cambiar el nombre de ${p.name}`}><PencilIcon className="w-4 h-4"/></Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleStartRemove(p)} className="p-1 text-red-400 hover:text-red-500" aria-label={`Quitar a ${p.name}`}><TrashIcon className="w-4 h-4"/></Button>
+                    </div>
+                  )}
+                </div>
+              )}
+              {removingId === p.id && removingUsage && (
+                <div className="mt-2 p-3 border border-amber-700 rounded-md space-y-2">
+                  <p className="text-xs text-amber-300">{p.name} tiene {describeParticipantUsage(removingUsage)}. Para quitarle del viaje, pasa todo a otro participante.</p>
+                  <div className="flex items-end space-x-2">
+                    <Select label="Pasar a" value={reassignTo} onChange={e => setReassignTo(e.target.value)}>
+                      <option value="">Selecciona</option>
+                      {trip.participants.filter(other => other.id !== p.id).map(other => <option key={other.id} value={other.id}>{other.name}</option>)}
+                    </Select>
+                    <Button type="button" size="sm" variant="danger" onClick={handleReassignAndRemove}>Pasar y quitar</Button>
+                    <Button type="button" size="sm" variant="ghost" onClick={() => setRemovingId(null)}>Cancelar</Button>
+                  </div>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+        {!isReadOnly && (
+          <form onSubmit={handleAddParticipant} className="space-y-3 border-t border-slate-700 pt-4">
+            <div className="grid grid-cols-2 gap-4">
+              <Input label="Nuevo participante" value={newParticipant.name} onChange={e => setNewParticipant(prev => ({ ...prev, name: e.target.value }))} placeholder="Nombre" />
+              <Input label="Se une el (Opcional)" type="date" value={newParticipant.arrivalDate} onChange={e => setNewParticipant(prev => ({ ...prev, arrivalDate: e.target.value }))} />
+            </div>
+            {newParticipant.arrivalDate === '' && expenses.length > 0 && <p className="text-xs text-amber-400">Sin fecha, compartirá también los gastos comunes ya registrados.</p>}
+            {participantError && <p className="text-sm text-red-400">{participantError}</p>}
+            <Button type="submit" variant="secondary" size="sm" iconLeft={<PlusIcon className="w-4 h-4"/>}>Añadir Participante</Button>
+          </form>
+        )}
+      </Card>
+    </div>
+  );
+};
+
 
 
 // --- Icons (simple inline SVGs for brevity) ---
@@ -1789,6 +3936,7 @@ const UserGroupIcon: React.FC<{className?: string}> = ({className="w-6 h-6"}) =>
 const NoSymbolIcon: React.FC<{className?: string}> = ({className="w-6 h-6"}) => <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className}><path strokeLinecap="round" strokeLinejoin="round" d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636" /></svg>;
 const TrashIcon: React.FC<{className?: string}> = ({className="w-6 h-6"}) => <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className}><path strokeLinecap="round" strokeLinejoin="round" d="M14.74 9l-.346 9m-4.788 0L9.26 9m9.968-3.21c.342.052.682.107 1.022.166m-1.022-.165L18.16 19.673a2.25 2.25 0 01-2.244 2.077H8.084a2.25 2.25 0 01-2.244-2.077L4.772 5.79m14.456 0a48.108 48.108 0 00-3.478-.397m-12.56 0c1.153 0 2.243.096 3.298.29m-.105-.29H5.64M7.5 11.25h9M7.5 15h9" /></svg>;
 const ArrowLeftIcon: React.FC<{className?: string}> = ({className="w-6 h-6"}) => <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className}><path strokeLinecap="round" strokeLinejoin="round" d="M10.5 19.5L3 12m0 0l7.5-7.5M3 12h18" /></svg>;
+const PencilIcon: React.FC<{className?: string}> = ({className="w-6 h-6"}) => <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className}><path strokeLinecap="round" strokeLinejoin="round" d="M16.862 4.487l1.687-1.688a1.875 1.875 0 112.652 2.652L6.832 19.82a4.5 4.5 0 01-1.897 1.13l-2.685.8.8-2.685a4.5 4.5 0 011.13-1.897L16.863 4.487zm0 0L19.5 7.125" /></svg>;
 const XMarkIcon: React.FC<{className?: string}> = ({className="w-6 h-6"}) => <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className}><path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" /></svg>;
 const CurrencyEuroIcon: React.FC<{className?: string}> = ({className="w-6 h-6"}) => <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className}><path strokeLinecap="round" strokeLinejoin="round" d="M14.25 7.756a4.5 4.5 0 100 8.488M14.25 7.756c2.485 0 4.5 2.015 4.5 4.5s-2.015 4.5-4.5 4.5m0-8.488c-.144.233-.298.455-.464.664M9.75 12c0-2.485 2.015-4.5 4.5-4.5m0 0c.166.209.32.431.464.664m-5.428 5.428a4.503 4.503 0 01-2.143-.91M9.75 12c0 2.485-2.015 4.5-4.5 4.5M4.524 13.91a4.503 4.503 0 01-.412-1.834m.412 1.834c.166.209.32.431.464.664M4.524 13.91L4.5 13.5m0 0L4.088 12.086M15 12a3 3 0 11-6 0 3 3 0 016 0z" /></svg>;
 const ChevronLeftIcon: React.FC<{className?: string}> = ({className="w-6 h-6"}) => <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className}><path strokeLinecap="round" strokeLinejoin="round" d="M15.75 19.5L8.25 12l7.5-7.5" /></svg>;
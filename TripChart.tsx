@@ -0,0 +1,146 @@
+import React, { useEffect, useRef } from 'react';
+import { TripChartSpec } from './utils/tripCharts';
+
+declare var Chart: any; // Using 'any' for Chart.js global, can be refined with specific types if needed
+
+// 'dark' matches the app's slate background; 'light' is for images placed on white PDF pages.
+export type ChartTheme = 'dark' | 'light';
+
+const THEME_COLORS: Record<ChartTheme, { text: string; ticks: string; grid: string; border: string }> = {
+  dark: { text: '#e2e8f0', ticks: '#94a3b8', grid: '#334155', border: '#1e293b' }, // slate-200, slate-400, slate-700, slate-800
+  light: { text: '#1e293b', ticks: '#475569', grid: '#e2e8f0', border: '#ffffff' },
+};
+
+const formatAmount = (value: number, currency: string, wholeUnits = false) =>
+  new Intl.NumberFormat('es-ES', { style: 'currency', currency, ...(wholeUnits ? { minimumFractionDigits: 0, maximumFractionDigits: 0 } : {}) }).format(value);
+
+// Translates a TripChartSpec into a Chart.js configuration.
+const buildChartConfig = (spec: TripChartSpec, theme: ChartTheme, animate: boolean) => {
+  const colors = THEME_COLORS[theme];
+  const isCircular = spec.type === 'doughnut';
+  const hasSecondaryAxis = spec.datasets.some(ds => ds.secondaryAxis);
+  const amountAxis = (position: 'left' | 'right') => ({
+    position,
+    beginAtZero: true,
+    stacked: !!spec.stacked,
+    ticks: { color: colors.ticks, callback: (value: any) => formatAmount(value, spec.currency, true) },
+    grid: { color: colors.grid, drawOnChartArea: position === 'left' },
+  });
+
+  return {
+    type: spec.type,
+    data: {
+      labels: spec.labels,
+      datasets: spec.datasets.map(ds => ({
+        label: ds.label,
+        data: ds.data,
+        type: ds.type,
+        backgroundColor: ds.colors,
+        borderColor: isCircular ? colors.border : ds.colors,
+        borderWidth: ds.type === 'line' ? 2 : 1,
+        yAxisID: isCircular ? undefined : ds.secondaryAxis ? 'y1' : 'y',
+        tension: ds.type === 'line' ? 0.25 : undefined,
+        pointRadius: ds.type === 'line' ? 2 : undefined,
+        order: ds.type === 'line' ? 0 : 1, // Draw lines on top of bars
+      })),
+    },
+    options: {
+      responsive: animate,
+      maintainAspectRatio: false,
+      animation: animate ? undefined : false,
+      plugins: {
+        title: {
+          display: !!spec.title,
+          text: spec.title,
+          font: {
+            size: 16,
+          },
+          color: colors.text,
+        },
+        legend: {
+          display: isCircular || spec.datasets.length > 1, // A single bar series is labelled by its axis
+          position: isCircular ? 'right' : 'top',
+          labels: { color: colors.text },
+        },
+        tooltip: {
+          backgroundColor: 'rgba(0,0,0,0.7)',
+          titleColor: '#fff',
+          bodyColor: '#fff',
+          callbacks: {
+            label: (context: any) => {
+              const value = isCircular ? context.parsed : context.parsed.y;
+              return `${context.dataset.label || context.label}: ${formatAmount(value, spec.currency)}`;
+            },
+          },
+        },
+      },
+      scales: isCircular ? undefined : {
+        y: amountAxis('left'),
+        ...(hasSecondaryAxis ? { y1: amountAxis('right') } : {}),
+        x: {
+          stacked: !!spec.stacked,
+          ticks: { color: colors.ticks },
+          grid: { display: false }, // No vertical grid lines usually for bar charts
+        },
+      },
+    },
+  };
+};
+
+// Draws a chart on an off-screen canvas and returns it as a PNG data URL, e.g. for jsPDF's addImage.
+// Returns null when Chart.js has not loaded.
+export const renderChartImage = (spec: TripChartSpec, width = 800, height = 400, theme: ChartTheme = 'light'): string | null => {
+  if (typeof Chart === 'undefined') return null;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  // Chart.js leaves the background transparent, which jsPDF turns black
+  const whiteBackground = { id: 'whiteBackground', beforeDraw: (chart: any) => { chart.ctx.save(); chart.ctx.fillStyle = '#ffffff'; chart.ctx.fillRect(0, 0, chart.width, chart.height); chart.ctx.restore(); } };
+  const config = buildChartConfig(spec, theme, false);
+  const chart = new Chart(ctx, { ...config, options: { ...config.options, devicePixelRatio: 2 }, plugins: theme === 'light' ? [whiteBackground] : [] });
+  const image = chart.toBase64Image('image/png');
+  chart.destroy();
+  return image;
+};
+
+interface TripChartProps {
+  chart: TripChartSpec;
+  height?: number;
+}
+
+const TripChart: React.FC<TripChartProps> = ({ chart, height = 300 }) => {
+  const chartRef = useRef<HTMLCanvasElement | null>(null);
+  const chartInstanceRef = useRef<any | null>(null); // To store the chart instance
+
+  useEffect(() => {
+    if (chartRef.current) {
+      const ctx = chartRef.current.getContext('2d');
+      if (ctx) {
+        // Destroy previous chart instance if it exists
+        if (chartInstanceRef.current) {
+          chartInstanceRef.current.destroy();
+        }
+
+        chartInstanceRef.current = new Chart(ctx, buildChartConfig(chart, 'dark', true));
+      }
+    }
+
+    // Cleanup function to destroy chart instance on component unmount
+    return () => {
+      if (chartInstanceRef.current) {
+        chartInstanceRef.current.destroy();
+        chartInstanceRef.current = null;
+      }
+    };
+  }, [chart]); // Re-run effect if data changes
+
+  return (
+    <div style={{ height: `${height}px`, width: '100%' }}> {/* Ensure canvas has dimensions */}
+      <canvas ref={chartRef}></canvas>
+    </div>
+  );
+};
+
+export default TripChart;
@@ -1,17 +1,58 @@
 
 import React from 'react';
-import { ExpenseCategory, InfoItemType } from './types';
+import { CategoryIcon, ExpenseCategory, ExpenseKind, ExpenseSplitMode, InfoItemType, PaymentAccount, PaymentAccountType, TransferMethod, TripCategory, TripStatus } from './types';
 
 export const APP_NAME = "FinanzasViajeras";
 export const TEST_USER_USERNAME = "testuser";
 export const TEST_USER_PASSWORD = "password";
 
-export const CATEGORIES = Object.values(ExpenseCategory);
+export const DEFAULT_CURRENCY = 'EUR';
+export const CURRENCIES: string[] = ['EUR', 'USD', 'GBP', 'JPY', 'CHF', 'SEK', 'NOK', 'DKK', 'PLN', 'CZK', 'HUF', 'MAD', 'MXN', 'ARS', 'CAD', 'AUD', 'THB', 'CNY'];
 
-interface CategoryVisuals {
-  icon: React.ReactNode;
-  color: string; // Tailwind color class
-}
+export const SPLIT_MODE_LABELS: Record<ExpenseSplitMode, string> = {
+  equal: 'A partes iguales',
+  weights: 'Por pesos',
+  percentages: 'Por porcentajes',
+  exact: 'Cantidades exactas',
+  items: 'Por conceptos',
+};
+
+export const EXPENSE_KIND_LABELS: Record<ExpenseKind, string> = {
+  expense: 'Gasto',
+  refund: 'Reembolso',
+  adjustment: 'Ajuste',
+};
+
+export const TRANSFER_METHOD_LABELS: Record<TransferMethod, string> = {
+  efectivo: 'Efectivo',
+  tarjeta: 'Tarjeta',
+  transferencia: 'Transferencia bancaria',
+  bizum: 'Bizum',
+  otro: 'Otro',
+};
+
+export const PAYMENT_ACCOUNT_TYPE_LABELS: Record<PaymentAccountType, string> = {
+  tarjeta: 'Tarjeta',
+  efectivo: 'Efectivo',
+  cuenta: 'Cuenta bancaria',
+};
+
+// Also the order the dashboard groups trips in
+export const TRIP_STATUS_LABELS: Record<TripStatus, string> = {
+  in_progress: 'En curso',
+  planning: 'En preparación',
+  finished: 'Terminado',
+  archived: 'Archivado',
+};
+
+export const DEFAULT_PAYMENT_ACCOUNTS: PaymentAccount[] = [
+  { id: 'tarjeta', name: 'Tarjeta', type: 'tarjeta' },
+  { id: 'efectivo', name: 'Efectivo', type: 'efectivo' },
+];
+
+// Stored as an expense's paidBy when the trip's kitty paid it; not a valid participant name
+export const KITTY_PAYER = '__kitty__';
+export const DEFAULT_KITTY_NAME = 'Bote común';
 
 // Helper to ensure consistent icon sizing
 const IconWrapper: React.FC<{ children: React.ReactNode, className?: string }> = ({ children, className }) => {
@@ -30,73 +71,98 @@ const IconWrapper: React.FC<{ children: React.ReactNode, className?: string }> =
 };
 
 
-export const CATEGORY_DETAILS: Record<ExpenseCategory, CategoryVisuals> = {
-  [ExpenseCategory.ALOJAMIENTO]: {
-    icon: (
-      <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
-        <path strokeLinecap="round" strokeLinejoin="round" d="M2.25 12l8.954-8.955c.44-.439 1.152-.439 1.591 0L21.75 12M4.5 9.75v10.125c0 .621.504 1.125 1.125 1.125H9.75v-4.875c0-.621.504-1.125 1.125-1.125h2.25c.621 0 1.125.504 1.125 1.125V21h4.125c.621 0 1.125-.504 1.125-1.125V9.75M8.25 21h7.5" />
-      </svg>
-    ),
-    color: 'bg-sky-600',
-  },
-  [ExpenseCategory.ACTIVIDADES]: {
-    icon: (
-      <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
-        <path strokeLinecap="round" strokeLinejoin="round" d="M9.813 15.904L9 18.75l-.813-2.846a4.5 4.5 0 00-3.09-3.09L1.25 12l2.846-.813a4.5 4.5 0 003.09-3.09L9 5.25l.813 2.846a4.5 4.5 0 003.09 3.09L15.75 12l-2.846.813a4.5 4.5 0 00-3.09 3.09zM18.25 12L17 14.188l-1.25-2.188a2.25 2.25 0 00-1.7-1.7L12 9.25l2.188-1.25a2.25 2.25 0 001.7-1.7L17 4.25l1.25 2.188a2.25 2.25 0 001.7 1.7L22.75 9.25l-2.188 1.25a2.25 2.25 0 00-1.7 1.7z" />
-      </svg>
-    ),
-    color: 'bg-amber-500',
-  },
-  [ExpenseCategory.COMIDA]: {
-    icon: (
-      <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
-        <path strokeLinecap="round" strokeLinejoin="round" d="M21.75 12.75V9a2.25 2.25 0 00-2.25-2.25H4.5A2.25 2.25 0 002.25 9v3.75m19.5 0a2.25 2.25 0 01-2.25 2.25H4.5a2.25 2.25 0 01-2.25-2.25m19.5 0v.243a2.25 2.25 0 01-1.07 1.916l-7.5 4.625a2.25 2.25 0 01-2.36 0l-7.5-4.625A2.25 2.25 0 012.25 12.993V12.75m19.5 0h-4.5M3.75 12.75h4.5m11.25 0h4.5m-15 0h9" />
-      </svg>
-    ),
-    color: 'bg-emerald-600',
-  },
-  [ExpenseCategory.TRANSPORTE]: {
-    icon: (
-      <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
-        <path strokeLinecap="round" strokeLinejoin="round" d="M8.25 18.75a1.5 1.5 0 01-3 0m3 0a1.5 1.5 0 00-3 0m3 0h6m-9 0H3.375a1.125 1.125 0 01-1.125-1.125V14.25m17.25 4.5a1.5 1.5 0 01-3 0m3 0a1.5 1.5 0 00-3 0m3 0h1.125c.621 0 1.129-.504 1.09-1.124a17.902 17.902 0 00-3.213-9.193 2.056 2.056 0 00-1.58-.86H14.25M16.5 18.75h-2.25m0-11.177v-.958c0-.568-.422-1.048-.987-1.139A48.784 48.784 0 0012 5.25c-2.73 0-5.356.356-7.834.966c-.566.091-.986.571-.986 1.139v.958m16.5 0a2.025 2.025 0 00-2.025-2.025H6.75A2.025 2.025 0 004.725 7.5v11.25c0 .621.504 1.125 1.125 1.125h.09M16.5 18.75v-2.25M5.25 16.5v2.25m0-11.177v-.958c0-.568.422-1.048.987-1.139A48.784 48.784 0 0112 5.25c2.73 0 5.356.356 7.834.966.566.091-.986.571-.986 1.139v.958M8.25 15h7.5" />
-      </svg>
-    ),
-    color: 'bg-orange-600',
-  },
-  [ExpenseCategory.ENTRADAS]: {
-    icon: (
-       <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
-        <path strokeLinecap="round" strokeLinejoin="round" d="M16.5 6v.75m0 3v.75m0 3v.75m0 3V18m-9-1.5h5.25m-5.25 0h3m-3 0h-3m0 0h1.5m9 3.75h-5.25m5.25 0h3m-3 0h-1.5m-9 3.75h5.25m-5.25 0h3m-3 0h-1.5m0 0h1.5m0 0h5.25m6-10.5V6a2.25 2.25 0 00-2.25-2.25H6.75A2.25 2.25 0 004.5 6v12a2.25 2.25 0 002.25 2.25h10.5A2.25 2.25 0 0019.5 18v-2.25m-5.25-6H9m6 0v.01" />
-      </svg>
-    ),
-    color: 'bg-rose-600',
-  },
-  [ExpenseCategory.COMPRAS]: {
-    icon: (
-      <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
-        <path strokeLinecap="round" strokeLinejoin="round" d="M15.75 10.5V6a3.75 3.75 0 10-7.5 0v4.5M3.75 18A2.25 2.25 0 006 20.25h12A2.25 2.25 0 0020.25 18M11.25 6.75h.008v.008h-.008V6.75z" />
-         <path strokeLinecap="round" strokeLinejoin="round" d="M16.5 21h-9a2.25 2.25 0 01-2.25-2.25V7.5A2.25 2.25 0 017.5 5.25h9A2.25 2.25 0 0118.75 7.5v11.25A2.25 2.25 0 0116.5 21z" />
-      </svg>
-    ),
-    color: 'bg-cyan-600',
-  },
-  [ExpenseCategory.OTROS]: {
-    icon: (
-      <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
-        <path strokeLinecap="round" strokeLinejoin="round" d="M11.48 3.499a.562.562 0 011.04 0l2.125 5.111a.563.563 0 00.475.345h5.518a.562.562 0 01.329.988l-4.203 3.075a.563.563 0 00-.182.557l1.285 5.022a.562.562 0 01-.82.632l-4.197-3.075a.563.563 0 00-.656 0l-4.197 3.075a.562.562 0 01-.82-.632l1.285-5.022a.562.562 0 00-.182-.557l-4.204-3.075a.562.562 0 01.33-.988h5.518a.563.563 0 00.475-.345L11.48 3.5z" />
-      </svg>
-    ),
-    color: 'bg-indigo-600',
-  },
+// Icons a trip category can use, taken from the app's existing icon set.
+export const CATEGORY_ICONS: Record<CategoryIcon, React.ReactNode> = {
+  home: (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" d="M2.25 12l8.954-8.955c.44-.439 1.152-.439 1.591 0L21.75 12M4.5 9.75v10.125c0 .621.504 1.125 1.125 1.125H9.75v-4.875c0-.621.504-1.125 1.125-1.125h2.25c.621 0 1.125.504 1.125 1.125V21h4.125c.621 0 1.125-.504 1.125-1.125V9.75M8.25 21h7.5" />
+    </svg>
+  ),
+  sparkles: (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" d="M9.813 15.904L9 18.75l-.813-2.846a4.5 4.5 0 00-3.09-3.09L1.25 12l2.846-.813a4.5 4.5 0 003.09-3.09L9 5.25l.813 2.846a4.5 4.5 0 003.09 3.09L15.75 12l-2.846.813a4.5 4.5 0 00-3.09 3.09zM18.25 12L17 14.188l-1.25-2.188a2.25 2.25 0 00-1.7-1.7L12 9.25l2.188-1.25a2.25 2.25 0 001.7-1.7L17 4.25l1.25 2.188a2.25 2.25 0 001.7 1.7L22.75 9.25l-2.188 1.25a2.25 2.25 0 00-1.7 1.7z" />
+    </svg>
+  ),
+  food: (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" d="M21.75 12.75V9a2.25 2.25 0 00-2.25-2.25H4.5A2.25 2.25 0 002.25 9v3.75m19.5 0a2.25 2.25 0 01-2.25 2.25H4.5a2.25 2.25 0 01-2.25-2.25m19.5 0v.243a2.25 2.25 0 01-1.07 1.916l-7.5 4.625a2.25 2.25 0 01-2.36 0l-7.5-4.625A2.25 2.25 0 012.25 12.993V12.75m19.5 0h-4.5M3.75 12.75h4.5m11.25 0h4.5m-15 0h9" />
+    </svg>
+  ),
+  transport: (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" d="M8.25 18.75a1.5 1.5 0 01-3 0m3 0a1.5 1.5 0 00-3 0m3 0h6m-9 0H3.375a1.125 1.125 0 01-1.125-1.125V14.25m17.25 4.5a1.5 1.5 0 01-3 0m3 0a1.5 1.5 0 00-3 0m3 0h1.125c.621 0 1.129-.504 1.09-1.124a17.902 17.902 0 00-3.213-9.193 2.056 2.056 0 00-1.58-.86H14.25M16.5 18.75h-2.25m0-11.177v-.958c0-.568-.422-1.048-.987-1.139A48.784 48.784 0 0012 5.25c-2.73 0-5.356.356-7.834.966c-.566.091-.986.571-.986 1.139v.958m16.5 0a2.025 2.025 0 00-2.025-2.025H6.75A2.025 2.025 0 004.725 7.5v11.25c0 .621.504 1.125 1.125 1.125h.09M16.5 18.75v-2.25M5.25 16.5v2.25m0-11.177v-.958c0-.568.422-1.048.987-1.139A48.784 48.784 0 0112 5.25c2.73 0 5.356.356 7.834.966.566.091-.986.571-.986 1.139v.958M8.25 15h7.5" />
+    </svg>
+  ),
+  ticket: (
+     <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" d="M16.5 6v.75m0 3v.75m0 3v.75m0 3V18m-9-1.5h5.25m-5.25 0h3m-3 0h-3m0 0h1.5m9 3.75h-5.25m5.25 0h3m-3 0h-1.5m-9 3.75h5.25m-5.25 0h3m-3 0h-1.5m0 0h1.5m0 0h5.25m6-10.5V6a2.25 2.25 0 00-2.25-2.25H6.75A2.25 2.25 0 004.5 6v12a2.25 2.25 0 002.25 2.25h10.5A2.25 2.25 0 0019.5 18v-2.25m-5.25-6H9m6 0v.01" />
+    </svg>
+  ),
+  shopping: (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" d="M15.75 10.5V6a3.75 3.75 0 10-7.5 0v4.5M3.75 18A2.25 2.25 0 006 20.25h12A2.25 2.25 0 0020.25 18M11.25 6.75h.008v.008h-.008V6.75z" />
+       <path strokeLinecap="round" strokeLinejoin="round" d="M16.5 21h-9a2.25 2.25 0 01-2.25-2.25V7.5A2.25 2.25 0 017.5 5.25h9A2.25 2.25 0 0118.75 7.5v11.25A2.25 2.25 0 0116.5 21z" />
+    </svg>
+  ),
+  star: (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" d="M11.48 3.499a.562.562 0 011.04 0l2.125 5.111a.563.563 0 00.475.345h5.518a.562.562 0 01.329.988l-4.203 3.075a.563.563 0 00-.182.557l1.285 5.022a.562.562 0 01-.82.632l-4.197-3.075a.563.563 0 00-.656 0l-4.197 3.075a.562.562 0 01-.82-.632l1.285-5.022a.562.562 0 00-.182-.557l-4.204-3.075a.562.562 0 01.33-.988h5.518a.563.563 0 00.475-.345L11.48 3.5z" />
+    </svg>
+  ),
+  plane: (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" d="M6 12L3.269 3.126A59.768 59.768 0 0121.485 12 59.77 59.77 0 013.27 20.876L5.999 12zm0 0h7.5" />
+    </svg>
+  ),
+  building: (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" d="M2.25 21h19.5m-18-18v18m10.5-18v18m6-13.5V21M6.75 7.5h.75m-.75 3h.75m-.75 3h.75m3-6h.75m-.75 3h.75m-.75 3h.75M6.75 21v-3.375c0-.621.504-1.125 1.125-1.125h2.25c.621 0 1.125.504 1.125 1.125V21M3 3h18M3 7.5h18M3 12h18m-4.5 4.5h.008v.008h-.008v-.008zm0 3h.008v.008h-.008v-.008zm0 3h.008v.008h-.008v-.008z" />
+    </svg>
+  ),
+  map: (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" d="M9 6.75V15m6-6v8.25m.503-6.998l-6.868 2.646M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+    </svg>
+  ),
+  note: (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" d="M16.862 4.487l1.687-1.688a1.875 1.875 0 112.652 2.652L10.582 16.07a4.5 4.5 0 01-1.897 1.13L6 18l.8-2.685a4.5 4.5 0 011.13-1.897l8.932-8.931zm0 0L19.5 7.125M18 14v4.75A2.25 2.25 0 0115.75 21H5.25A2.25 2.25 0 013 18.75V8.25A2.25 2.25 0 015.25 6H10" />
+    </svg>
+  ),
 };
 
 // Apply IconWrapper to all category icons for consistent sizing
-Object.values(ExpenseCategory).forEach(category => {
-  if (CATEGORY_DETAILS[category]) {
-    CATEGORY_DETAILS[category].icon = <IconWrapper className="w-5 h-5">{CATEGORY_DETAILS[category].icon}</IconWrapper>;
-  }
+(Object.keys(CATEGORY_ICONS) as CategoryIcon[]).forEach(icon => {
+  CATEGORY_ICONS[icon] = <IconWrapper className="w-5 h-5">{CATEGORY_ICONS[icon]}</IconWrapper>;
 });
 
+// Colours a trip category can use: Tailwind background class -> hex for charts and the PDF.
+export const CATEGORY_COLORS: Record<string, string> = {
+  'bg-sky-600': '#0284c7',
+  'bg-amber-500': '#f59e0b',
+  'bg-emerald-600': '#059669',
+  'bg-orange-600': '#ea580c',
+  'bg-rose-600': '#e11d48',
+  'bg-cyan-600': '#0891b2',
+  'bg-indigo-600': '#4f46e5',
+  'bg-lime-600': '#65a30d',
+  'bg-fuchsia-600': '#c026d3',
+  'bg-teal-600': '#0d9488',
+  'bg-red-600': '#dc2626',
+  'bg-slate-500': '#64748b',
+};
+
+// Categories every trip starts with. Their ids are the ExpenseCategory values older expenses already store.
+export const DEFAULT_CATEGORIES: TripCategory[] = [
+  { id: ExpenseCategory.ALOJAMIENTO, name: ExpenseCategory.ALOJAMIENTO, icon: 'home', color: 'bg-sky-600' },
+  { id: ExpenseCategory.ACTIVIDADES, name: ExpenseCategory.ACTIVIDADES, icon: 'sparkles', color: 'bg-amber-500' },
+  { id: ExpenseCategory.COMIDA, name: ExpenseCategory.COMIDA, icon: 'food', color: 'bg-emerald-600' },
+  { id: ExpenseCategory.TRANSPORTE, name: ExpenseCategory.TRANSPORTE, icon: 'transport', color: 'bg-orange-600' },
+  { id: ExpenseCategory.ENTRADAS, name: ExpenseCategory.ENTRADAS, icon: 'ticket', color: 'bg-rose-600' },
+  { id: ExpenseCategory.COMPRAS, name: ExpenseCategory.COMPRAS, icon: 'shopping', color: 'bg-cyan-600' },
+  { id: ExpenseCategory.OTROS, name: ExpenseCategory.OTROS, icon: 'star', color: 'bg-indigo-600' },
+];
+
 
 export const INFO_ITEM_TYPE_DETAILS: Record<InfoItemType, { icon: React.ReactNode; color: string }> = {
   [InfoItemType.BOARDING_PASS]: {
@@ -145,7 +211,8 @@ export const MAIN_VIEW_ICONS: Record<string, React.ReactNode> = {
   INFO: <IconWrapper className="w-6 h-6"><svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" d="M11.25 11.25l.041-.02a.75.75 0 011.063.852l-.708 2.836a.75.75 0 001.063.853l.041-.021M21 12a9 9 0 11-18 0 9 9 0 0118 0zm-9-3.75h.008v.008H12V8.25z" /></svg></IconWrapper>,
   MAPAS: <IconWrapper className="w-6 h-6"><svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" d="M9 6.75V15m6-6v8.25m.503-6.998l-6.868 2.646M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg></IconWrapper>,
   CHAT: <IconWrapper className="w-6 h-6"><svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" d="M8.625 12a.375.375 0 11-.75 0 .375.375 0 01.75 0zm0 0H8.25m4.125 0a.375.375 0 11-.75 0 .375.375 0 01.75 0zm0 0H12m4.125 0a.375.375 0 11-.75 0 .375.375 0 01.75 0zm0 0h-.375M21 12c0 4.556-3.861 8.25-8.625 8.25S3.75 16.556 3.75 12 7.611 3.75 12.375 3.75 21 7.444 21 12z" /></svg></IconWrapper>,
-  ITINERARIO: <IconWrapper className="w-6 h-6"><svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" d="M6.75 3v2.25M17.25 3v2.25M3 18.75V7.5a2.25 2.25 0 012.25-2.25h13.5A2.25 2.25 0 0121 7.5v11.25m-18 0A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75m-18 0v-7.5A2.25 2.25 0 015.25 9h13.5A2.25 2.25 0 0121 11.25v7.5m-9-3.75h.008v.008H12v-.008zM12 15h.008v.008H12V15zm0 2.25h.008v.008H12v-.008zM9.75 15h.008v.008H9.75V15zm0 2.25h.008v.008H9.75v-.008zM7.5 15h.008v.008H7.5V15zm0 2.25h.008v.008H7.5v-.008z" /></svg></IconWrapper>
+  ITINERARIO: <IconWrapper className="w-6 h-6"><svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" d="M6.75 3v2.25M17.25 3v2.25M3 18.75V7.5a2.25 2.25 0 012.25-2.25h13.5A2.25 2.25 0 0121 7.5v11.25m-18 0A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75m-18 0v-7.5A2.25 2.25 0 015.25 9h13.5A2.25 2.25 0 0121 11.25v7.5m-9-3.75h.008v.008H12v-.008zM12 15h.008v.008H12V15zm0 2.25h.008v.008H12v-.008zM9.75 15h.008v.008H9.75V15zm0 2.25h.008v.008H9.75v-.008zM7.5 15h.008v.008H7.5V15zm0 2.25h.008v.008H7.5v-.008z" /></svg></IconWrapper>,
+  AJUSTES: <IconWrapper className="w-6 h-6"><svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" d="M9.594 3.94c.09-.542.56-.94 1.11-.94h2.593c.55 0 1.02.398 1.11.94l.213 1.281c.063.374.313.686.645.87.074.04.147.083.22.127.324.196.72.257 1.075.124l1.217-.456a1.125 1.125 0 011.37.49l1.296 2.247a1.125 1.125 0 01-.26 1.431l-1.003.827c-.293.24-.438.613-.431.992a6.759 6.759 0 010 .255c-.007.378.138.75.43.99l1.005.828c.424.35.534.954.26 1.43l-1.298 2.247a1.125 1.125 0 01-1.369.491l-1.217-.456c-.355-.133-.75-.072-1.076.124a6.57 6.57 0 01-.22.128c-.331.183-.581.495-.644.869l-.213 1.28c-.09.543-.56.941-1.11.941h-2.594c-.55 0-1.02-.398-1.11-.94l-.213-1.281c-.062-.374-.312-.686-.644-.87a6.52 6.52 0 01-.22-.127c-.325-.196-.72-.257-1.076-.124l-1.217.456a1.125 1.125 0 01-1.369-.49l-1.297-2.247a1.125 1.125 0 01.26-1.431l1.004-.827c.292-.24.437-.613.43-.992a6.932 6.932 0 010-.255c.007-.378-.138-.75-.43-.99l-1.004-.828a1.125 1.125 0 01-.26-1.43l1.297-2.247a1.125 1.125 0 011.37-.491l1.216.456c.356.133.751.072 1.076-.124.072-.044.146-.087.22-.128.332-.183.582-.495.644-.869l.214-1.281z" /><path strokeLinecap="round" strokeLinejoin="round" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" /></svg></IconWrapper>
 };
 
 export const GASTOS_SUBVIEW_ICONS: Record<string, React.ReactNode> = {
@@ -153,4 +220,5 @@ export const GASTOS_SUBVIEW_ICONS: Record<string, React.ReactNode> = {
   add: <IconWrapper className="w-5 h-5"><svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" d="M12 4.5v15m7.5-7.5h-15" /></svg></IconWrapper>,
   summary: <IconWrapper className="w-5 h-5"><svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" d="M3.75 3v11.25A2.25 2.25 0 006 16.5h12M3.75 3h-1.5m1.5 0h16.5M3.75 16.5c0 1.242 1.008 2.25 2.25 2.25h13.5A2.25 2.25 0 0021 16.5M16.5 8.25l-4.5 4.5-4.5-4.5" /></svg></IconWrapper>,
   calendar: <IconWrapper className="w-5 h-5"><svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" d="M6.75 3v2.25M17.25 3v2.25M3 18.75V7.5a2.25 2.25 0 012.25-2.25h13.5A2.25 2.25 0 0121 7.5v11.25m-18 0A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75m-18 0v-7.5A2.25 2.25 0 015.25 9h13.5A2.25 2.25 0 0121 11.25v7.5" /></svg></IconWrapper>,
+  import: <IconWrapper className="w-5 h-5"><svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5m-13.5-9L12 3m0 0l4.5 4.5M12 3v13.5" /></svg></IconWrapper>,
 };
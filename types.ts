@@ -9,27 +9,134 @@ export enum ExpenseCategory {
   OTROS = 'Otros',
 }
 
+export type CategoryIcon = 'home' | 'sparkles' | 'food' | 'transport' | 'ticket' | 'shopping' | 'star' | 'plane' | 'building' | 'map' | 'note';
+
+// An expense category as configured for a trip. Built-in categories use their ExpenseCategory value as id.
+export interface TripCategory {
+  id: string;
+  name: string;
+  icon: CategoryIcon;
+  color: string; // Tailwind background class, one of CATEGORY_COLORS
+}
+
+export type PaymentAccountType = 'tarjeta' | 'efectivo' | 'cuenta';
+
+// A card, bank account or cash pot expenses are paid with. Built-in accounts use the old 'tarjeta' and 'efectivo' ids.
+export interface PaymentAccount {
+  id: string;
+  name: string; // e.g. "Revolut de Ana"
+  type: PaymentAccountType;
+  owner?: string; // Participant id, undefined for accounts shared by the group
+  currency?: string; // ISO 4217 code the account is held in, defaults to the trip's base currency
+  foreignFeePercent?: number; // Fee the bank charges on payments in any other currency
+}
+
+export type ExpenseSplitMode = 'equal' | 'weights' | 'percentages' | 'exact' | 'items';
+
+// A line of an itemised bill, shared equally among the participants who had it
+export interface ExpenseLineItem {
+  id: string;
+  description: string;
+  amount: number; // In the expense's own currency, before tax, tip and discount
+  participants: string[]; // Participant ids
+}
+
+export interface ExpenseSplit {
+  mode: ExpenseSplitMode;
+  participants: string[]; // Participant ids sharing the expense
+  values?: Record<string, number>; // Weight, percentage or exact amount per participant id (unused for 'equal' and 'items')
+  items?: ExpenseLineItem[]; // Only for 'items'; participants then lists everyone assigned to at least one item
+  tax?: number; // Only for 'items': tax, tip and discount are spread in proportion to each person's items
+  tip?: number;
+  discount?: number;
+}
+
+export interface ExpenseFieldChange {
+  field: string; // Human-readable field label
+  from: string;
+  to: string;
+}
+
+export interface ExpenseChange {
+  changedAt: string; // ISO date string
+  changedBy: string; // Username of whoever made the edit
+  changes: ExpenseFieldChange[];
+}
+
+// Refunds and adjustments are stored with a positive amount and subtract from totals and balances.
+export type ExpenseKind = 'expense' | 'refund' | 'adjustment';
+
 export interface Expense {
   id: string;
   tripId: string;
   date: string; // YYYY-MM-DD
-  amount: number;
-  category: ExpenseCategory;
+  endDate?: string; // YYYY-MM-DD, last day covered (inclusive) for expenses prorated over several days
+  amount: number; // In the expense's own currency
+  currency?: string; // ISO 4217 code, undefined means the trip's base currency
+  category: string; // TripCategory id
   description: string;
-  paidBy: string; // Participant name
+  paidBy: string; // Participant id, or KITTY_PAYER for the trip's kitty; for refunds, who received the money back
+  kind?: ExpenseKind; // Undefined means a regular expense
+  refundOf?: string; // Id of the expense a refund or adjustment gives money back for
   proofImage?: string; // Base64 encoded image string
-  paymentMethod?: 'tarjeta' | 'efectivo' | '';
+  receiptText?: string; // Raw text recognised from the proof image, kept for searching
+  tags?: string[]; // Free-form labels, e.g. "reembolsable empresa"
+  paymentMethod?: string; // PaymentAccount id
+  split?: ExpenseSplit; // Undefined means shared equally by every participant
+  createdBy?: string; // Username who logged the expense
+  createdAt?: string; // ISO date string
+  history?: ExpenseChange[]; // Audit trail of edits, oldest first
 }
 
 export interface Participant {
-  name: string;
+  id: string; // Stable reference used by expenses, transfers and other records
+  name: string; // Display label, can be edited and repeated
+  arrivalDate?: string; // YYYY-MM-DD, first day with the group; undefined means from the start of the trip
+  departureDate?: string; // YYYY-MM-DD, last day with the group (inclusive); undefined means until the end
+}
+
+// Money a participant put into the trip's kitty
+export interface KittyContribution {
+  id: string;
+  participant: string; // Participant id
+  amount: number; // In the trip's base currency
+  date: string; // YYYY-MM-DD
+  note?: string;
+}
+
+// A common pot the group pays from. What it pays is charged to the contributors in proportion to what each put in.
+export interface TripKitty {
+  name: string; // e.g. "Bote común"
+  contributions: KittyContribution[];
+}
+
+// Budgets are expressed in the trip's base currency
+export interface TripBudget {
+  total?: number;
+  daily?: number;
+  byCategory?: Record<string, number>; // Keyed by TripCategory id
 }
 
+// Archived trips are read-only until they are reopened
+export type TripStatus = 'planning' | 'in_progress' | 'finished' | 'archived';
+
 export interface Trip {
   id: string;
   name:string;
   participants: Participant[];
   tripCode: string; // Unique code for sharing/joining
+  baseCurrency?: string; // ISO 4217 code totals are computed in, defaults to EUR
+  exchangeRates?: Record<string, number>; // Units of base currency per unit of each foreign currency, maintained manually
+  budget?: TripBudget;
+  categories?: TripCategory[]; // Undefined means the built-in DEFAULT_CATEGORIES
+  paymentAccounts?: PaymentAccount[]; // Undefined means the built-in DEFAULT_PAYMENT_ACCOUNTS
+  settlementAvoidPairs?: [string, string][]; // Ids of participants who prefer not to pay each other directly when settling
+  kitty?: TripKitty; // Undefined means the trip has no kitty
+  startDate?: string; // YYYY-MM-DD
+  endDate?: string; // YYYY-MM-DD, inclusive
+  destinations?: string[];
+  coverImage?: string; // Base64 encoded image
+  status?: TripStatus; // Undefined means it follows the dates, see getTripStatus
 }
 
 export interface User {
@@ -42,16 +149,32 @@ export interface StoredUser {
 }
 
 export interface SettledPayment {
-  from: string;
-  to: string;
+  from: string; // Participant id
+  to: string; // Participant id
   amount: number;
+  breaksPreference?: boolean; // Goes between a pair that asked to avoid paying each other, because no alternative was found
+}
+
+export type TransferMethod = 'efectivo' | 'tarjeta' | 'transferencia' | 'bizum' | 'otro';
+
+// A reimbursement actually made between participants to settle the trip's balances
+export interface SettlementTransfer {
+  id: string;
+  tripId: string;
+  from: string; // Participant id who paid
+  to: string; // Participant id who received
+  amount: number; // In the trip's base currency
+  date: string; // YYYY-MM-DD
+  method?: TransferMethod;
+  note?: string;
+  createdAt: string; // ISO date string
 }
 
 // --- New Types for "RECUERDOS" ---
 export interface MediaItem {
   id: string;
   tripId: string;
-  uploader: string; // Participant name
+  uploader: string; // Username of who uploaded it
   type: 'image' | 'video';
   dataUrl: string; // Base64 encoded data
   fileName: string;
@@ -83,7 +206,7 @@ export interface InfoItem {
   time?: string; // Relevant time
   isCompleted: boolean;
   reminderEnabled: boolean; // UI only, no real notifications
-  addedBy: string; // Participant name
+  addedBy: string; // Username of who added it
   createdAt: string; // ISO date string
 }
 
@@ -91,7 +214,7 @@ export interface InfoItem {
 export interface ChatMessage {
   id: string;
   tripId: string;
-  sender: string; // Participant name or current user's name
+  sender: string; // Username of who sent it
   text: string;
   timestamp: string; // ISO date string
   // isReadBy?: { [participantName: string]: boolean }; // Future enhancement
@@ -119,8 +242,29 @@ export interface ItineraryItem {
   notes?: string;
   location?: string; // Address or name of place (optional)
   isCompleted: boolean;
-  addedBy: string; // Participant name
+  addedBy: string; // Username of who added it
+  createdAt: string; // ISO date string
+}
+
+// --- Trip templates ---
+// Dates are stored as days from the original trip's start so they can be moved to any new start date
+export interface TripTemplateInfoItem extends Pick<InfoItem, 'title' | 'type' | 'details' | 'time' | 'reminderEnabled'> {
+  dayOffset?: number; // Undefined for items without a date
+}
+
+export interface TripTemplateItineraryItem extends Pick<ItineraryItem, 'title' | 'time' | 'category' | 'notes' | 'location'> {
+  dayOffset: number;
+}
+
+// What a new trip copies from an earlier one: no expenses, payments, kitty, chat or memories
+export interface TripTemplate {
+  id: string;
+  name: string;
   createdAt: string; // ISO date string
+  trip: Pick<Trip, 'participants' | 'baseCurrency' | 'exchangeRates' | 'budget' | 'categories' | 'paymentAccounts' | 'settlementAvoidPairs' | 'destinations'>;
+  durationDays?: number; // Days the original trip lasted, to set the end date of the new one
+  infoItems: TripTemplateInfoItem[];
+  itineraryItems: TripTemplateItineraryItem[];
 }
 
 // --- New Types for "MAPAS" ---
@@ -0,0 +1,59 @@
+import { Expense, TripBudget } from '../types';
+import { formatCurrency } from './currency';
+import { getPortionsByDay, prorateExpense } from './proration';
+
+export interface BudgetProgress {
+  spent: number;
+  budget: number;
+  ratio: number; // spent / budget, 0 when there is no budget
+  isOver: boolean;
+}
+
+export const getBudgetProgress = (spent: number, budget: number): BudgetProgress => ({
+  spent,
+  budget,
+  ratio: budget > 0 ? spent / budget : 0,
+  isOver: budget > 0 && spent > budget + 0.005,
+});
+
+export const hasAnyBudget = (budget: TripBudget | undefined): boolean =>
+  !!budget && (!!budget.total || !!budget.daily || Object.values(budget.byCategory || {}).some(v => !!v));
+
+// Days whose prorated spending exceeds the daily budget, sorted by date.
+export const getDaysOverBudget = (expenses: Expense[], dailyBudget: number, currency: string): { date: string; spent: number }[] => {
+  const days: { date: string; spent: number }[] = [];
+  getPortionsByDay(expenses, currency).forEach((portions, date) => {
+    const spent = portions.reduce((sum, portion) => sum + portion.amount, 0);
+    if (spent > dailyBudget + 0.005) days.push({ date, spent });
+  });
+  return days.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// Warnings for budgets that `candidate` would push over. All amounts must be in the trip's base currency;
+// `expenses` should not include the candidate itself (e.g. the previous version of an edited expense).
+// Only regular expenses can push a budget over; refunds and adjustments never warn.
+export const getBudgetWarnings = (budget: TripBudget | undefined, expenses: Expense[], candidate: Expense, currency: string, categoryName: string = candidate.category): string[] => {
+  if (!budget || (candidate.kind ?? 'expense') !== 'expense') return [];
+  const warnings: string[] = [];
+  const format = (amount: number) => formatCurrency(amount, currency);
+
+  if (budget.total) {
+    const spent = expenses.reduce((sum, exp) => sum + exp.amount, 0) + candidate.amount;
+    if (getBudgetProgress(spent, budget.total).isOver) warnings.push(`El total del viaje (${format(spent)}) supera el presupuesto de ${format(budget.total)}.`);
+  }
+
+  const categoryBudget = budget.byCategory?.[candidate.category];
+  if (categoryBudget) {
+    const spent = expenses.filter(exp => exp.category === candidate.category).reduce((sum, exp) => sum + exp.amount, 0) + candidate.amount;
+    if (getBudgetProgress(spent, categoryBudget).isOver) warnings.push(`${categoryName} (${format(spent)}) supera su presupuesto de ${format(categoryBudget)}.`);
+  }
+
+  if (budget.daily) {
+    const portionsByDay = getPortionsByDay(expenses, currency);
+    prorateExpense(candidate, currency).forEach(portion => {
+      const spent = (portionsByDay.get(portion.date) || []).reduce((sum, p) => sum + p.amount, 0) + portion.amount;
+      if (getBudgetProgress(spent, budget.daily!).isOver) warnings.push(`El día ${portion.date} (${format(spent)}) supera el presupuesto diario de ${format(budget.daily!)}.`);
+    });
+  }
+  return warnings;
+};
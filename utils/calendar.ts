@@ -0,0 +1,62 @@
+import { Participant } from '../types';
+import { getExpenseShares } from './expenseSplits';
+import { DailyExpensePortion, addDays, getDaysInRange } from './proration';
+
+// 0 means nothing spent; 1-4 go from well below to well above the trip's daily average.
+export type HeatLevel = 0 | 1 | 2 | 3 | 4;
+
+export interface DayParticipantTotal {
+  paid: number;
+  consumed: number;
+}
+
+const sumPortions = (portions: DailyExpensePortion[]) => portions.reduce((sum, portion) => sum + portion.amount, 0);
+
+// Average spend per day between the first and last day with expenses, counting the quiet days in between.
+export const getDailyAverage = (portionsByDay: Map<string, DailyExpensePortion[]>): number => {
+  const dates = Array.from(portionsByDay.keys()).sort();
+  if (dates.length === 0) return 0;
+  const total = Array.from(portionsByDay.values()).reduce((sum, portions) => sum + sumPortions(portions), 0);
+  return total / getDaysInRange(dates[0], dates[dates.length - 1]).length;
+};
+
+export const getHeatLevel = (amount: number, average: number): HeatLevel => {
+  if (amount <= 0) return 0;
+  if (average <= 0) return 2;
+  const ratio = amount / average;
+  if (ratio < 0.5) return 1;
+  if (ratio < 1) return 2;
+  if (ratio < 1.5) return 3;
+  return 4;
+};
+
+// The seven days (Monday to Sunday) of the week containing `date`, as YYYY-MM-DD.
+export const getWeekDays = (date: string): string[] => {
+  const weekday = (new Date(date + 'T00:00:00Z').getUTCDay() + 6) % 7; // 0 = Monday
+  const monday = addDays(date, -weekday);
+  return getDaysInRange(monday, addDays(monday, 6));
+};
+
+export const getTotalsByCategory = (portions: DailyExpensePortion[]): Record<string, number> => {
+  const totals: Record<string, number> = {};
+  portions.forEach(({ expense, amount }) => { totals[expense.category] = (totals[expense.category] || 0) + amount; });
+  return totals;
+};
+
+// What each participant paid and consumed on one day, keyed by participant id. A prorated portion with a split is shared like its whole expense.
+export const getTotalsByParticipant = (portions: DailyExpensePortion[], participants: Participant[]): Record<string, DayParticipantTotal> => {
+  const totals: Record<string, DayParticipantTotal> = {};
+  participants.forEach(p => totals[p.id] = { paid: 0, consumed: 0 });
+  portions.forEach(({ expense, date, amount }) => {
+    totals[expense.paidBy] = totals[expense.paidBy] || { paid: 0, consumed: 0 };
+    totals[expense.paidBy].paid += amount;
+    const ratio = expense.amount !== 0 ? amount / expense.amount : 0;
+    // Without a split, the day's portion is shared only by whoever was there that day
+    const shares = getExpenseShares(expense.split ? expense : { amount: expense.amount, date }, participants);
+    Object.entries(shares).forEach(([id, share]) => {
+      totals[id] = totals[id] || { paid: 0, consumed: 0 };
+      totals[id].consumed += share * ratio;
+    });
+  });
+  return totals;
+};
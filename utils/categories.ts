@@ -0,0 +1,23 @@
+import { Trip, TripCategory } from '../types';
+import { CATEGORY_COLORS, DEFAULT_CATEGORIES } from '../constants';
+
+export const getTripCategories = (trip: Trip): TripCategory[] =>
+  trip.categories && trip.categories.length > 0 ? trip.categories : DEFAULT_CATEGORIES;
+
+// Falls back to a neutral look for ids the trip no longer has, e.g. expenses imported from another trip.
+export const getCategory = (trip: Trip, id: string): TripCategory =>
+  getTripCategories(trip).find(cat => cat.id === id)
+  || DEFAULT_CATEGORIES.find(cat => cat.id === id)
+  || { id, name: id, icon: 'star', color: 'bg-slate-500' };
+
+export const getCategoryName = (trip: Trip, id: string): string => getCategory(trip, id).name;
+
+export const getCategoryHexColor = (category: TripCategory): string => CATEGORY_COLORS[category.color] || CATEGORY_COLORS['bg-slate-500'];
+
+// Returns an error message if the name is empty or already used by another category of the trip.
+export const validateCategoryName = (name: string, categories: TripCategory[], editingId?: string): string | null => {
+  const trimmed = name.trim();
+  if (!trimmed) return "El nombre de la categoría es obligatorio.";
+  if (categories.some(cat => cat.id !== editingId && cat.name.toLowerCase() === trimmed.toLowerCase())) return `Ya existe una categoría llamada "${trimmed}".`;
+  return null;
+};
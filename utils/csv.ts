@@ -0,0 +1,46 @@
+// Minimal RFC 4180 style CSV parser. Detects ';' or tab separated files (common in Spanish bank exports)
+// by looking at the first line.
+export const detectCsvDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/)[0] || '';
+  const counts = [',', ';', '\t'].map(d => ({ d, n: firstLine.split(d).length }));
+  return counts.sort((a, b) => b.n - a.n)[0].d;
+};
+
+export const parseCsv = (text: string, delimiter: string = detectCsvDelimiter(text)): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') inQuotes = false;
+      else field += char;
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field); field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      if (row.some(cell => cell.trim() !== '')) rows.push(row);
+      row = [];
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  if (row.some(cell => cell.trim() !== '')) rows.push(row);
+  return rows;
+};
+
+const escapeCsvField = (value: string | number, delimiter: string): string => {
+  const text = String(value);
+  return /["\r\n]/.test(text) || text.includes(delimiter) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: (string | number)[][], delimiter: string = ','): string =>
+  rows.map(row => row.map(value => escapeCsvField(value, delimiter)).join(delimiter)).join('\r\n');
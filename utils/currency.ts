@@ -0,0 +1,41 @@
+import { Expense, Trip } from '../types';
+import { DEFAULT_CURRENCY } from '../constants';
+import { isCreditEntry } from './expenseKinds';
+
+export const formatCurrency = (amount: number, currency: string = DEFAULT_CURRENCY) =>
+  new Intl.NumberFormat('es-ES', { style: 'currency', currency }).format(amount);
+
+export const getTripBaseCurrency = (trip: Trip): string => trip.baseCurrency || DEFAULT_CURRENCY;
+
+export const getExpenseCurrency = (expense: Pick<Expense, 'currency'>, trip: Trip): string => expense.currency || getTripBaseCurrency(trip);
+
+// Units of the trip's base currency per unit of `currency`, or null if no rate has been entered.
+export const getExchangeRate = (currency: string, trip: Trip): number | null => {
+  if (currency === getTripBaseCurrency(trip)) return 1;
+  const rate = trip.exchangeRates?.[currency];
+  return rate && rate > 0 ? rate : null;
+};
+
+export const convertToBaseCurrency = (amount: number, currency: string, trip: Trip): number => amount * (getExchangeRate(currency, trip) ?? 1);
+
+// Returns a copy of the expense with its amount (and exact split amounts) expressed in the trip's base currency
+// and signed, so refunds and adjustments come out negative and every total can simply add amounts up.
+// Expenses in a currency without a rate are left unconverted; see getMissingRateCurrencies.
+export const toBaseCurrencyExpense = (expense: Expense, trip: Trip): Expense => {
+  const rate = getExchangeRate(getExpenseCurrency(expense, trip), trip) ?? 1;
+  const factor = isCreditEntry(expense) ? -rate : rate;
+  if (factor === 1) return expense;
+  const split = expense.split?.mode === 'exact' && expense.split.values
+    ? { ...expense.split, values: Object.fromEntries(Object.entries(expense.split.values).map(([id, value]) => [id, value * factor])) }
+    : expense.split;
+  return { ...expense, amount: expense.amount * factor, split };
+};
+
+export const getMissingRateCurrencies = (expenses: Expense[], trip: Trip): string[] => {
+  const missing = new Set<string>();
+  expenses.forEach(exp => {
+    const currency = getExpenseCurrency(exp, trip);
+    if (getExchangeRate(currency, trip) === null) missing.add(currency);
+  });
+  return Array.from(missing).sort();
+};
@@ -0,0 +1,103 @@
+import { Expense } from '../types';
+import { hasTag } from './tags';
+
+export interface ExpenseFilters {
+  query: string;
+  category: string; // TripCategory id
+  tag: string;
+  paidBy: string;
+  paymentMethod: string; // PaymentAccount id, or 'none' for expenses without one
+  dateFrom: string; // YYYY-MM-DD
+  dateTo: string; // YYYY-MM-DD
+  minAmount: string; // In the trip's base currency
+  maxAmount: string;
+}
+
+export type ExpenseSortKey = 'date_desc' | 'date_asc' | 'amount_desc' | 'amount_asc' | 'description';
+export type ExpenseGroupKey = 'none' | 'day' | 'category';
+
+export const EMPTY_EXPENSE_FILTERS: ExpenseFilters = {
+  query: '', category: '', tag: '', paidBy: '', paymentMethod: '', dateFrom: '', dateTo: '', minAmount: '', maxAmount: '',
+};
+
+export const EXPENSE_SORT_LABELS: Record<ExpenseSortKey, string> = {
+  date_desc: 'Fecha (más recientes)',
+  date_asc: 'Fecha (más antiguos)',
+  amount_desc: 'Cantidad (mayor primero)',
+  amount_asc: 'Cantidad (menor primero)',
+  description: 'Descripción (A-Z)',
+};
+
+export const EXPENSE_GROUP_LABELS: Record<ExpenseGroupKey, string> = {
+  none: 'Sin agrupar',
+  day: 'Por día',
+  category: 'Por categoría',
+};
+
+export interface ExpenseGroup {
+  key: string;
+  expenses: Expense[];
+  subtotal: number; // In the trip's base currency
+}
+
+const normalize = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const parseAmount = (value: string): number | null => {
+  const parsed = parseFloat(value.trim().replace(',', '.'));
+  return isNaN(parsed) ? null : parsed;
+};
+
+export const countActiveFilters = (filters: ExpenseFilters): number =>
+  (Object.keys(filters) as (keyof ExpenseFilters)[]).filter(key => filters[key].trim() !== '').length;
+
+// `getBaseAmount` converts an expense to the trip's base currency so amount ranges compare like with like;
+// `getCategoryName` lets the search match the category's current name rather than its id.
+export const filterExpenses = (expenses: Expense[], filters: ExpenseFilters, getBaseAmount: (exp: Expense) => number, getCategoryName: (id: string) => string = id => id): Expense[] => {
+  const query = normalize(filters.query.trim());
+  const minAmount = parseAmount(filters.minAmount);
+  const maxAmount = parseAmount(filters.maxAmount);
+  return expenses.filter(exp => {
+    if (query && !normalize(`${exp.description} ${getCategoryName(exp.category)} ${(exp.tags || []).join(' ')} ${exp.receiptText || ''}`).includes(query)) return false;
+    if (filters.category && exp.category !== filters.category) return false;
+    if (filters.tag && !hasTag(exp, filters.tag)) return false;
+    if (filters.paidBy && exp.paidBy !== filters.paidBy) return false;
+    if (filters.paymentMethod === 'none' && exp.paymentMethod) return false;
+    if (filters.paymentMethod && filters.paymentMethod !== 'none' && exp.paymentMethod !== filters.paymentMethod) return false;
+    // Multi-day expenses match if any of their days falls within the range
+    if (filters.dateFrom && (exp.endDate || exp.date) < filters.dateFrom) return false;
+    if (filters.dateTo && exp.date > filters.dateTo) return false;
+    const amount = getBaseAmount(exp);
+    if (minAmount !== null && amount < minAmount) return false;
+    if (maxAmount !== null && amount > maxAmount) return false;
+    return true;
+  });
+};
+
+export const sortExpenses = (expenses: Expense[], sortKey: ExpenseSortKey, getBaseAmount: (exp: Expense) => number): Expense[] => {
+  const sorted = [...expenses];
+  switch (sortKey) {
+    case 'date_asc': return sorted.sort((a, b) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id));
+    case 'amount_desc': return sorted.sort((a, b) => getBaseAmount(b) - getBaseAmount(a));
+    case 'amount_asc': return sorted.sort((a, b) => getBaseAmount(a) - getBaseAmount(b));
+    case 'description': return sorted.sort((a, b) => (a.description || a.category).localeCompare(b.description || b.category, 'es'));
+    default: return sorted.sort((a, b) => b.date.localeCompare(a.date) || b.id.localeCompare(a.id));
+  }
+};
+
+// Groups keep the order in which their first expense appears, so they follow the chosen sort.
+export const groupExpenses = (expenses: Expense[], groupKey: ExpenseGroupKey, getBaseAmount: (exp: Expense) => number): ExpenseGroup[] => {
+  const groups: ExpenseGroup[] = [];
+  const byKey = new Map<string, ExpenseGroup>();
+  expenses.forEach(exp => {
+    const key = groupKey === 'day' ? exp.date : groupKey === 'category' ? exp.category : 'all';
+    let group = byKey.get(key);
+    if (!group) {
+      group = { key, expenses: [], subtotal: 0 };
+      byKey.set(key, group);
+      groups.push(group);
+    }
+    group.expenses.push(exp);
+    group.subtotal += getBaseAmount(exp);
+  });
+  return groups;
+};
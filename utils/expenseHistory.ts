@@ -0,0 +1,58 @@
+import { Expense, ExpenseFieldChange } from '../types';
+import { EXPENSE_KIND_LABELS, SPLIT_MODE_LABELS } from '../constants';
+
+const describeSplit = (split: Expense['split'], participantName: (id: string) => string): string => {
+  if (!split) return 'A partes iguales entre todos';
+  if (split.mode === 'items') {
+    const items = (split.items || []).map(item => `${item.description || 'Concepto'} ${item.amount} (${item.participants.map(participantName).join(', ')})`);
+    const extras = [split.tax && `impuestos ${split.tax}`, split.tip && `propina ${split.tip}`, split.discount && `descuento ${split.discount}`].filter(Boolean);
+    return `${SPLIT_MODE_LABELS.items}: ${[...items, ...extras].join('; ')}`;
+  }
+  const values = split.values || {};
+  const detail = split.participants.map(id => split.mode === 'equal' ? participantName(id) : `${participantName(id)} ${values[id] ?? 0}`).join(', ');
+  return `${SPLIT_MODE_LABELS[split.mode]}: ${detail}`;
+};
+
+// Turn the ids stored on an expense into the names shown in the audit trail.
+interface NameResolvers {
+  category: (id: string) => string;
+  paymentAccount: (id: string) => string;
+  payer: (paidBy: string) => string;
+  participant: (id: string) => string;
+}
+
+// Fields tracked in an expense's history, with how to render each value for the audit trail.
+const TRACKED_FIELDS: { field: string; read: (exp: Expense, names: NameResolvers) => string }[] = [
+  { field: 'Tipo', read: exp => EXPENSE_KIND_LABELS[exp.kind || 'expense'] },
+  { field: 'Fecha', read: exp => exp.date },
+  { field: 'Hasta', read: exp => exp.endDate || '—' },
+  { field: 'Cantidad', read: exp => String(exp.amount) },
+  { field: 'Moneda', read: exp => exp.currency || 'Moneda base' },
+  { field: 'Categoría', read: (exp, names) => names.category(exp.category) },
+  { field: 'Descripción', read: exp => exp.description || '—' },
+  { field: 'Etiquetas', read: exp => (exp.tags || []).join(', ') || '—' },
+  { field: 'Pagado por', read: (exp, names) => names.payer(exp.paidBy) },
+  { field: 'Cuenta de pago', read: (exp, names) => exp.paymentMethod ? names.paymentAccount(exp.paymentMethod) : '—' },
+  { field: 'Reparto', read: (exp, names) => describeSplit(exp.split, names.participant) },
+  { field: 'Comprobante', read: exp => exp.proofImage ? 'Imagen adjunta' : 'Sin imagen' },
+];
+
+// Lists the user-visible differences between two versions of the same expense.
+export const describeExpenseChanges = (
+  before: Expense,
+  after: Expense,
+  getCategoryName: (id: string) => string = id => id,
+  getPaymentAccountName: (id: string) => string = id => id,
+  getPayerName: (paidBy: string) => string = paidBy => paidBy,
+  getParticipantName: (id: string) => string = id => id
+): ExpenseFieldChange[] => {
+  const names: NameResolvers = { category: getCategoryName, paymentAccount: getPaymentAccountName, payer: getPayerName, participant: getParticipantName };
+  const changes: ExpenseFieldChange[] = [];
+  TRACKED_FIELDS.forEach(({ field, read }) => {
+    const from = read(before, names);
+    const to = read(after, names);
+    if (from !== to) changes.push({ field, from, to });
+    else if (field === 'Comprobante' && before.proofImage !== after.proofImage) changes.push({ field, from, to: 'Imagen reemplazada' });
+  });
+  return changes;
+};
@@ -0,0 +1,23 @@
+import { Expense } from '../types';
+
+// Refunds and adjustments give money back: they count negatively towards totals, what the receiver paid and
+// what everyone in their split consumed.
+export const isCreditEntry = (expense: Pick<Expense, 'kind'>): boolean => expense.kind === 'refund' || expense.kind === 'adjustment';
+
+export const getSignedAmount = (expense: Pick<Expense, 'kind' | 'amount'>): number => isCreditEntry(expense) ? -expense.amount : expense.amount;
+
+// Refunds and adjustments linked to `expense`.
+export const getLinkedCredits = (expense: Expense, expenses: Expense[]): Expense[] =>
+  expenses.filter(exp => exp.refundOf === expense.id && isCreditEntry(exp));
+
+// How much of `expense` has already been given back, in the trip's base currency (positive).
+export const getRefundedAmount = (expense: Expense, expenses: Expense[], getBaseAmount: (exp: Expense) => number): number =>
+  getLinkedCredits(expense, expenses).reduce((sum, exp) => sum + Math.abs(getBaseAmount(exp)), 0);
+
+// A refund linked to an expense cannot give back more than is left of it. `amount` is in the base currency.
+export const validateCreditEntry = (amount: number, original: Expense, expenses: Expense[], getBaseAmount: (exp: Expense) => number, editingId?: string): string | null => {
+  const refunded = getRefundedAmount(original, expenses.filter(exp => exp.id !== editingId), getBaseAmount);
+  const remaining = getBaseAmount(original) - refunded;
+  if (amount > remaining + 0.005) return `La devolución supera lo que queda por devolver del gasto original (${remaining.toFixed(2)}).`;
+  return null;
+};
@@ -0,0 +1,131 @@
+import { Expense, ExpenseSplit, Participant } from '../types';
+import { getDaysInRange } from './proration';
+import { getParticipantsPresentDuring, getPresentParticipants } from './presence';
+
+const SPLIT_TOLERANCE = 0.005;
+
+// Ids of the participants an expense is shared among. Falls back to everyone if the split
+// references nobody who is still part of the trip.
+export const getSplitParticipants = (split: ExpenseSplit | undefined, participants: Participant[]): string[] => {
+  const allIds = participants.map(p => p.id);
+  if (!split) return allIds;
+  const included = split.participants.filter(id => allIds.includes(id));
+  return included.length > 0 ? included : allIds;
+};
+
+export const getItemsSubtotal = (split: ExpenseSplit): number =>
+  (split.items || []).reduce((sum, item) => sum + item.amount, 0);
+
+// What an itemised bill adds up to once tax and tip are added and the discount taken off.
+export const getItemizedTotal = (split: ExpenseSplit): number =>
+  getItemsSubtotal(split) + (split.tax || 0) + (split.tip || 0) - (split.discount || 0);
+
+// Each person pays for their items, and tax, tip and discount scale with what they had. Scaling the item
+// shares to the expense amount does exactly that and also follows any currency conversion of the amount.
+const getItemizedShares = (amount: number, split: ExpenseSplit, included: string[]): Record<string, number> | null => {
+  const subtotal = getItemsSubtotal(split);
+  if (subtotal <= 0) return null;
+  const shares: Record<string, number> = {};
+  (split.items || []).forEach(item => {
+    const eaters = item.participants.filter(id => included.includes(id));
+    const sharedBy = eaters.length > 0 ? eaters : included;
+    sharedBy.forEach(id => { shares[id] = (shares[id] || 0) + item.amount / sharedBy.length; });
+  });
+  Object.keys(shares).forEach(id => { shares[id] = shares[id] * amount / subtotal; });
+  return shares;
+};
+
+// Without a split, each day of the expense is shared equally by whoever was there that day.
+const getPresenceShares = (amount: number, date: string, endDate: string | undefined, participants: Participant[]): Record<string, number> => {
+  const shares: Record<string, number> = {};
+  const days = getDaysInRange(date, endDate);
+  days.forEach(day => {
+    const present = getPresentParticipants(participants, day);
+    present.forEach(p => { shares[p.id] = (shares[p.id] || 0) + amount / days.length / present.length; });
+  });
+  return shares;
+};
+
+// How much of a single expense each participant consumed, keyed by participant id.
+// Dated expenses without a split only count the participants present on their days.
+export const getExpenseShares = (expense: Pick<Expense, 'amount' | 'split'> & Partial<Pick<Expense, 'date' | 'endDate'>>, participants: Participant[]): Record<string, number> => {
+  const { amount, split } = expense;
+  if (!split && expense.date && participants.length > 0) return getPresenceShares(amount, expense.date, expense.endDate, participants);
+  const included = getSplitParticipants(split, participants);
+  const shares: Record<string, number> = {};
+  if (included.length === 0) return shares;
+
+  const values = split?.values || {};
+  if (split?.mode === 'items') {
+    const itemized = getItemizedShares(amount, split, included);
+    if (itemized) return itemized;
+  }
+  if (split?.mode === 'exact') {
+    included.forEach(id => { shares[id] = values[id] || 0; });
+    return shares;
+  }
+  if (split?.mode === 'weights' || split?.mode === 'percentages') {
+    const total = included.reduce((sum, id) => sum + (values[id] || 0), 0);
+    if (total > 0) {
+      included.forEach(id => { shares[id] = amount * (values[id] || 0) / total; });
+      return shares;
+    }
+  }
+  included.forEach(id => { shares[id] = amount / included.length; });
+  return shares;
+};
+
+// Total consumed by each participant across all expenses.
+export const getSharesByParticipant = (expenses: Expense[], participants: Participant[]): Record<string, number> => {
+  const byParticipant: Record<string, number> = {};
+  participants.forEach(p => byParticipant[p.id] = 0);
+  expenses.forEach(exp => {
+    Object.entries(getExpenseShares(exp, participants)).forEach(([id, share]) => {
+      byParticipant[id] = (byParticipant[id] || 0) + share;
+    });
+  });
+  return byParticipant;
+};
+
+const validateItemizedSplit = (split: ExpenseSplit, amount: number): string | null => {
+  const items = split.items || [];
+  if (items.length === 0) return "Añade al menos un concepto a la cuenta.";
+  if (items.some(item => isNaN(item.amount) || item.amount <= 0)) return "El importe de cada concepto debe ser mayor que cero.";
+  if (items.some(item => item.participants.length === 0)) return "Asigna cada concepto a al menos un participante.";
+  if ([split.tax, split.tip, split.discount].some(v => v !== undefined && (isNaN(v) || v < 0))) return "Impuestos, propina y descuento deben ser números positivos.";
+  if ((split.discount || 0) >= getItemsSubtotal(split) + (split.tax || 0) + (split.tip || 0)) return "El descuento no puede ser mayor que la cuenta.";
+  const total = getItemizedTotal(split);
+  if (Math.abs(total - amount) > SPLIT_TOLERANCE) return `Los conceptos suman ${total.toFixed(2)} pero el gasto es de ${amount.toFixed(2)}.`;
+  return null;
+};
+
+// Freezes shares as weights, so they no longer change with presence dates or with who is on the trip.
+export const getSharesAsSplit = (shares: Record<string, number>, participants: Participant[]): ExpenseSplit => {
+  const values: Record<string, number> = {};
+  Object.entries(shares).forEach(([id, share]) => { values[id] = Math.round(share * 10000) / 10000; });
+  return { mode: 'weights', participants: participants.map(p => p.id).filter(id => values[id] > 0), values };
+};
+
+// Returns an error message if the split cannot be applied to the given amount, or null if it is valid.
+export const validateExpenseSplit = (split: ExpenseSplit, amount: number): string | null => {
+  if (split.mode === 'items') return validateItemizedSplit(split, amount);
+  if (split.participants.length === 0) return "Selecciona al menos un participante para repartir el gasto.";
+  const values = split.participants.map(id => split.values?.[id] ?? NaN);
+  if (split.mode === 'equal') return null;
+  if (values.some(v => isNaN(v) || v < 0)) return "Los valores del reparto deben ser números positivos.";
+  const total = values.reduce((sum, v) => sum + v, 0);
+  if (split.mode === 'weights' && total <= 0) return "La suma de los pesos debe ser mayor que cero.";
+  if (split.mode === 'percentages' && Math.abs(total - 100) > SPLIT_TOLERANCE) return `Los porcentajes deben sumar 100% (ahora suman ${total.toFixed(2)}%).`;
+  if (split.mode === 'exact' && Math.abs(total - amount) > SPLIT_TOLERANCE) return `Las cantidades exactas deben sumar ${amount.toFixed(2)} (ahora suman ${total.toFixed(2)}).`;
+  return null;
+};
+
+// True when the split is equivalent to sharing equally among every participant present during `range`,
+// or among every participant at all when no range is given.
+export const isDefaultSplit = (split: ExpenseSplit | undefined, participants: Participant[], range?: Pick<Expense, 'date' | 'endDate'>): boolean => {
+  if (!split) return true;
+  if (split.mode !== 'equal') return false;
+  const expected = range ? getParticipantsPresentDuring(participants, range.date, range.endDate) : participants;
+  const included = split.participants.filter(id => participants.some(p => p.id === id));
+  return expected.every(p => included.includes(p.id)) && included.length === expected.length;
+};
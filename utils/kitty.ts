@@ -0,0 +1,61 @@
+import { Expense, Participant, Trip } from '../types';
+import { DEFAULT_KITTY_NAME, KITTY_PAYER } from '../constants';
+import { getParticipantName } from './participants';
+
+export interface KittySummary {
+  contributed: number;
+  spent: number; // Net of refunds paid back into the pot
+  balance: number; // Money left in the pot; negative if it paid more than it was given
+  contributionsByParticipant: Record<string, number>; // Keyed by participant id, like the two below
+  chargedByParticipant: Record<string, number>; // Each contributor's part of what the pot paid
+  returns: Record<string, number>; // Leftover each contributor gets back when the pot is emptied
+}
+
+export const isPaidByKitty = (expense: Expense): boolean => expense.paidBy === KITTY_PAYER;
+
+export const getKittyName = (trip: Trip): string => trip.kitty?.name || DEFAULT_KITTY_NAME;
+
+// Display name for an expense's paidBy, which may be the kitty rather than a participant.
+export const getPayerName = (trip: Trip, paidBy: string): string => paidBy === KITTY_PAYER ? getKittyName(trip) : getParticipantName(trip, paidBy);
+
+// What the pot paid is charged in proportion to what each person put in, which is the same as handing the leftover
+// back in that proportion. Before anyone contributes, it is charged equally to every participant.
+const getKittyCharges = (spent: number, contributionsByParticipant: Record<string, number>, participants: Participant[]): Record<string, number> => {
+  const charges: Record<string, number> = {};
+  const contributed = Object.values(contributionsByParticipant).reduce((sum, amount) => sum + amount, 0);
+  if (contributed > 0) {
+    Object.entries(contributionsByParticipant).forEach(([id, amount]) => { charges[id] = spent * amount / contributed; });
+  } else if (participants.length > 0) {
+    participants.forEach(p => { charges[p.id] = spent / participants.length; });
+  }
+  return charges;
+};
+
+// `expenses` must already be converted to the trip's base currency, with refunds negative.
+export const getKittySummary = (trip: Trip, expenses: Expense[]): KittySummary => {
+  const contributionsByParticipant: Record<string, number> = {};
+  (trip.kitty?.contributions || []).forEach(c => { contributionsByParticipant[c.participant] = (contributionsByParticipant[c.participant] || 0) + c.amount; });
+  const contributed = Object.values(contributionsByParticipant).reduce((sum, amount) => sum + amount, 0);
+  const spent = expenses.filter(isPaidByKitty).reduce((sum, exp) => sum + exp.amount, 0);
+  const chargedByParticipant = getKittyCharges(spent, contributionsByParticipant, trip.participants);
+  const returns: Record<string, number> = {};
+  Object.entries(contributionsByParticipant).forEach(([id, amount]) => { returns[id] = amount - (chargedByParticipant[id] || 0); });
+  return { contributed, spent, balance: contributed - spent, contributionsByParticipant, chargedByParticipant, returns };
+};
+
+// What each participant paid: their own payments plus their part of what the kitty paid.
+// `expenses` must already be converted to the trip's base currency.
+export const getPaidByParticipant = (trip: Trip, expenses: Expense[]): Record<string, number> => {
+  const paid: Record<string, number> = {};
+  trip.participants.forEach(p => paid[p.id] = 0);
+  expenses.forEach(exp => { if (!isPaidByKitty(exp)) paid[exp.paidBy] = (paid[exp.paidBy] || 0) + exp.amount; });
+  Object.entries(getKittySummary(trip, expenses).chargedByParticipant).forEach(([id, amount]) => { paid[id] = (paid[id] || 0) + amount; });
+  return paid;
+};
+
+// Returns an error message if the contribution can't be recorded.
+export const validateKittyContribution = (participant: string, amount: number): string | null => {
+  if (!participant) return "Selecciona quién pone el dinero.";
+  if (!amount || amount <= 0) return "La aportación debe ser mayor que cero.";
+  return null;
+};
@@ -0,0 +1,87 @@
+import { Expense, ExpenseSplit, SettlementTransfer, Trip } from '../types';
+
+// Everything stored in localStorage that can point at a participant. Photos, notes, plans and messages
+// are attributed to usernames, which don't change when a participant is renamed.
+export interface StoredTripData {
+  trips: Trip[];
+  expenses: Expense[];
+  settlementTransfers: SettlementTransfer[];
+}
+
+const STORAGE_KEYS: Record<keyof StoredTripData, string> = {
+  trips: 'travelfin-trips',
+  expenses: 'travelfin-expenses',
+  settlementTransfers: 'travelfin-settlement-transfers',
+};
+
+const migrateSplit = (split: ExpenseSplit, toId: (name: string) => string): ExpenseSplit => ({
+  ...split,
+  participants: split.participants.map(toId),
+  values: split.values && Object.fromEntries(Object.entries(split.values).map(([name, value]) => [toId(name), value])),
+  items: split.items?.map(item => ({ ...item, participants: item.participants.map(toId) })),
+});
+
+// Trips created before participants had ids referenced them by name everywhere. Gives each of them an id and
+// points the trip's records at it; values that aren't a participant's name, like the kitty as payer, are left as they are.
+// Trips that already have ids are untouched, and the ids only depend on the trip, so running it again is harmless
+// even if records of a trip were migrated before and the trip itself wasn't.
+export const migrateParticipantIds = (data: StoredTripData): StoredTripData => {
+  const idsByTrip = new Map<string, Record<string, string>>();
+  const trips = data.trips.map(trip => {
+    if (trip.participants.every(p => p.id)) return trip;
+    const ids: Record<string, string> = {};
+    const participants = trip.participants.map((p, i) => p.id ? p : { ...p, id: `participant-${trip.id}-${i}` });
+    participants.forEach(p => { ids[p.name] = p.id; });
+    idsByTrip.set(trip.id, ids);
+    const toId = (name: string) => ids[name] || name;
+    return {
+      ...trip,
+      participants,
+      settlementAvoidPairs: trip.settlementAvoidPairs?.map(([a, b]) => [toId(a), toId(b)] as [string, string]),
+      paymentAccounts: trip.paymentAccounts?.map(acc => acc.owner ? { ...acc, owner: toId(acc.owner) } : acc),
+      kitty: trip.kitty && { ...trip.kitty, contributions: trip.kitty.contributions.map(c => ({ ...c, participant: toId(c.participant) })) },
+    };
+  });
+  if (idsByTrip.size === 0) return data;
+
+  // Returns a name-to-id mapper for the record's trip, or null if that trip didn't need migrating
+  const mapperFor = (tripId: string) => {
+    const ids = idsByTrip.get(tripId);
+    return ids ? (name: string) => ids[name] || name : null;
+  };
+  return {
+    trips,
+    expenses: data.expenses.map(exp => {
+      const toId = mapperFor(exp.tripId);
+      return toId ? { ...exp, paidBy: toId(exp.paidBy), split: exp.split && migrateSplit(exp.split, toId) } : exp;
+    }),
+    settlementTransfers: data.settlementTransfers.map(tr => {
+      const toId = mapperFor(tr.tripId);
+      return toId ? { ...tr, from: toId(tr.from), to: toId(tr.to) } : tr;
+    }),
+  };
+};
+
+const readStored = <T,>(key: string): T[] => {
+  const item = window.localStorage.getItem(key);
+  return item ? JSON.parse(item) : [];
+};
+
+// Brings data saved by older versions up to date. Runs once before the app mounts, so every
+// useLocalStorage hook already reads the migrated values. Trips are written last: until they are saved
+// the migration runs again on the next start, e.g. if storage filled up halfway.
+export const migrateStoredData = (): void => {
+  try {
+    const stored = Object.fromEntries(
+      Object.entries(STORAGE_KEYS).map(([field, key]) => [field, readStored(key)])
+    ) as unknown as StoredTripData;
+    const migrated = migrateParticipantIds(stored);
+    if (migrated === stored) return;
+    const fields = (Object.keys(STORAGE_KEYS) as (keyof StoredTripData)[]).filter(field => field !== 'trips');
+    [...fields, 'trips' as const].forEach(field => {
+      window.localStorage.setItem(STORAGE_KEYS[field], JSON.stringify(migrated[field]));
+    });
+  } catch (error) {
+    console.error("Error migrating stored data:", error);
+  }
+};
@@ -0,0 +1,102 @@
+import { Expense, ExpenseSplit, Participant, SettlementTransfer, Trip } from '../types';
+import { getExpenseShares, getSharesAsSplit } from './expenseSplits';
+
+// Where a participant's id is still referenced in a trip's money, i.e. what removing them would break.
+export interface ParticipantUsage {
+  paid: number; // Expenses they paid or, for refunds, received
+  splits: number; // Expenses they have a share of, from an explicit split or from their presence dates
+  transfers: number;
+  contributions: number; // Money put into the kitty
+}
+
+export const createParticipant = (name: string, index = 0): Participant => ({ id: `participant-${Date.now()}-${index}`, name: name.trim() });
+
+export const getParticipant = (trip: Trip, id: string): Participant | undefined => trip.participants.find(p => p.id === id);
+
+export const getParticipantName = (trip: Trip, id: string): string => getParticipant(trip, id)?.name || id;
+
+// Names are only labels, so two participants may share one.
+export const validateParticipantName = (name: string): string | null => name.trim() ? null : "El nombre del participante es obligatorio.";
+
+export const validateTripName = (name: string): string | null => name.trim() ? null : "El nombre del viaje es obligatorio.";
+
+export const renameParticipant = (trip: Trip, id: string, name: string): Trip => ({
+  ...trip,
+  participants: trip.participants.map(p => p.id === id ? { ...p, name: name.trim() } : p),
+});
+
+const mergeInList = (ids: string[], from: string, to: string): string[] =>
+  ids.map(id => id === from ? to : id).filter((id, i, all) => all.indexOf(id) === i);
+
+// When both are in the split, their weights, percentages and exact amounts add up.
+const mergeInSplit = (split: ExpenseSplit, from: string, to: string): ExpenseSplit => {
+  const merged: ExpenseSplit = { ...split, participants: mergeInList(split.participants, from, to) };
+  if (split.values && from in split.values) {
+    const { [from]: value, ...rest } = split.values;
+    merged.values = { ...rest, [to]: (rest[to] || 0) + value };
+  }
+  if (split.items) merged.items = split.items.map(item => ({ ...item, participants: mergeInList(item.participants, from, to) }));
+  return merged;
+};
+
+// Freezes what everyone consumed as weights, with `from`'s share added to `to`'s. Needed where merging the ids
+// alone would spread `from`'s share among everyone: shared equally by whoever was there, or equally among a
+// list that already includes `to`.
+const mergeInShares = (shares: Record<string, number>, participants: Participant[], from: string, to: string): ExpenseSplit => {
+  const { [from]: share = 0, ...rest } = shares;
+  return getSharesAsSplit({ ...rest, [to]: (rest[to] || 0) + share }, participants.filter(p => p.id !== from));
+};
+
+// The merge functions below move everything of participant `from` to participant `to`, e.g. before removing `from`.
+// `participants` are the trip's before the merge, so `to` ends up with exactly what both consumed.
+export const mergeParticipantInExpense = (expense: Expense, participants: Participant[], from: string, to: string): Expense => {
+  const paidBy = expense.paidBy === from ? to : expense.paidBy;
+  const { split } = expense;
+  const sharedEqually = !split || (split.mode === 'equal' && split.participants.includes(from) && split.participants.includes(to));
+  if (!sharedEqually) return { ...expense, paidBy, split: split && mergeInSplit(split, from, to) };
+  const shares = getExpenseShares(expense, participants);
+  return { ...expense, paidBy, split: shares[from] ? mergeInShares(shares, participants, from, to) : split };
+};
+
+// Returns null when the transfer ends up between the same person.
+export const mergeParticipantInTransfer = (transfer: SettlementTransfer, from: string, to: string): SettlementTransfer | null => {
+  const merged = { ...transfer, from: transfer.from === from ? to : transfer.from, to: transfer.to === from ? to : transfer.to };
+  return merged.from === merged.to ? null : merged;
+};
+
+export const mergeParticipantInTrip = (trip: Trip, from: string, to: string): Trip => ({
+  ...trip,
+  participants: trip.participants.filter(p => p.id !== from),
+  settlementAvoidPairs: trip.settlementAvoidPairs
+    ?.map(([a, b]) => [a === from ? to : a, b === from ? to : b] as [string, string])
+    .filter(([a, b], i, all) => a !== b && all.findIndex(([x, y]) => (x === a && y === b) || (x === b && y === a)) === i),
+  paymentAccounts: trip.paymentAccounts?.map(acc => acc.owner === from ? { ...acc, owner: to } : acc),
+  kitty: trip.kitty && { ...trip.kitty, contributions: trip.kitty.contributions.map(c => c.participant === from ? { ...c, participant: to } : c) },
+});
+
+// Removes a participant nobody's money depends on any more; see getParticipantUsage. Photos, notes, plans and
+// messages are attributed to usernames, not participants, so they keep their author.
+export const removeParticipantFromTrip = (trip: Trip, id: string): Trip => ({
+  ...trip,
+  participants: trip.participants.filter(p => p.id !== id),
+  settlementAvoidPairs: trip.settlementAvoidPairs?.filter(([a, b]) => a !== id && b !== id),
+  paymentAccounts: trip.paymentAccounts?.map(acc => acc.owner === id ? { ...acc, owner: undefined } : acc),
+});
+
+export const getParticipantUsage = (id: string, trip: Trip, expenses: Expense[], transfers: SettlementTransfer[]): ParticipantUsage => ({
+  paid: expenses.filter(exp => exp.paidBy === id).length,
+  splits: expenses.filter(exp => (getExpenseShares(exp, trip.participants)[id] || 0) > 0
+    || (exp.split && (exp.split.participants.includes(id) || (exp.split.items || []).some(item => item.participants.includes(id))))).length,
+  transfers: transfers.filter(tr => tr.from === id || tr.to === id).length,
+  contributions: (trip.kitty?.contributions || []).filter(c => c.participant === id).length,
+});
+
+export const isParticipantInUse = (usage: ParticipantUsage): boolean =>
+  usage.paid > 0 || usage.splits > 0 || usage.transfers > 0 || usage.contributions > 0;
+
+export const describeParticipantUsage = (usage: ParticipantUsage): string => [
+  usage.paid > 0 && `${usage.paid} ${usage.paid === 1 ? 'gasto pagado' : 'gastos pagados'}`,
+  usage.splits > 0 && `${usage.splits} ${usage.splits === 1 ? 'reparto' : 'repartos'}`,
+  usage.transfers > 0 && `${usage.transfers} ${usage.transfers === 1 ? 'pago entre participantes' : 'pagos entre participantes'}`,
+  usage.contributions > 0 && `${usage.contributions} ${usage.contributions === 1 ? 'aportación al bote' : 'aportaciones al bote'}`,
+].filter(Boolean).join(', ');
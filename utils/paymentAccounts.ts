@@ -0,0 +1,56 @@
+import { Expense, PaymentAccount, Trip } from '../types';
+import { DEFAULT_PAYMENT_ACCOUNTS } from '../constants';
+import { getExpenseCurrency, getTripBaseCurrency, toBaseCurrencyExpense } from './currency';
+
+export interface PaymentAccountTotal {
+  account: PaymentAccount;
+  total: number; // In the trip's base currency
+  count: number;
+  foreignTotal: number; // Part of the total paid in a currency other than the account's own
+  fees: number; // Estimated foreign-transaction fees, in the trip's base currency
+}
+
+export const getTripPaymentAccounts = (trip: Trip): PaymentAccount[] =>
+  trip.paymentAccounts && trip.paymentAccounts.length > 0 ? trip.paymentAccounts : DEFAULT_PAYMENT_ACCOUNTS;
+
+// Falls back to a generic account for ids the trip no longer has, so old expenses still show something.
+export const getPaymentAccount = (trip: Trip, id: string): PaymentAccount =>
+  getTripPaymentAccounts(trip).find(acc => acc.id === id)
+  || DEFAULT_PAYMENT_ACCOUNTS.find(acc => acc.id === id)
+  || { id, name: id, type: 'cuenta' };
+
+export const getPaymentAccountName = (trip: Trip, id: string): string => getPaymentAccount(trip, id).name;
+
+// Returns an error message if the name is empty or already used by another account of the trip.
+export const validatePaymentAccountName = (name: string, accounts: PaymentAccount[], editingId?: string): string | null => {
+  const trimmed = name.trim();
+  if (!trimmed) return "El nombre de la cuenta es obligatorio.";
+  if (accounts.some(acc => acc.id !== editingId && acc.name.toLowerCase() === trimmed.toLowerCase())) return `Ya existe una cuenta llamada "${trimmed}".`;
+  return null;
+};
+
+const isForeignForAccount = (expense: Expense, account: PaymentAccount, trip: Trip): boolean =>
+  getExpenseCurrency(expense, trip) !== (account.currency || getTripBaseCurrency(trip));
+
+// Totals per account for the expenses that name one, in the order the trip lists its accounts.
+// Fees are an estimate: the account's percentage applied to every payment made in another currency.
+export const getPaymentAccountTotals = (expenses: Expense[], trip: Trip): PaymentAccountTotal[] => {
+  const totals = new Map<string, PaymentAccountTotal>();
+  getTripPaymentAccounts(trip).forEach(account => totals.set(account.id, { account, total: 0, count: 0, foreignTotal: 0, fees: 0 }));
+  expenses.forEach(exp => {
+    if (!exp.paymentMethod) return;
+    if (!totals.has(exp.paymentMethod)) {
+      totals.set(exp.paymentMethod, { account: getPaymentAccount(trip, exp.paymentMethod), total: 0, count: 0, foreignTotal: 0, fees: 0 });
+    }
+    const entry = totals.get(exp.paymentMethod)!;
+    const amount = toBaseCurrencyExpense(exp, trip).amount;
+    entry.total += amount;
+    entry.count += 1;
+    if (isForeignForAccount(exp, entry.account, trip)) {
+      entry.foreignTotal += amount;
+      // Banks rarely give the fee back on refunds, so only payments out are charged
+      if (amount > 0) entry.fees += amount * (entry.account.foreignFeePercent || 0) / 100;
+    }
+  });
+  return Array.from(totals.values()).filter(entry => entry.count > 0);
+};
@@ -0,0 +1,62 @@
+import { Expense, Participant } from '../types';
+import { getDaysInRange } from './proration';
+
+export interface AbsenceSummary {
+  count: number; // Shared expenses that fell, at least in part, on days the participant was away
+  amount: number; // How much less they consume than if everyone had been there the whole trip
+}
+
+export const hasPresenceDates = (participant: Participant): boolean => !!(participant.arrivalDate || participant.departureDate);
+
+export const isPresentOn = (participant: Participant, date: string): boolean =>
+  (!participant.arrivalDate || date >= participant.arrivalDate) && (!participant.departureDate || date <= participant.departureDate);
+
+// Who shares a default-split expense on `date`. Falls back to everyone if nobody is marked as present,
+// so an expense outside every stay still gets split.
+export const getPresentParticipants = (participants: Participant[], date: string): Participant[] => {
+  const present = participants.filter(p => isPresentOn(p, date));
+  return present.length > 0 ? present : participants;
+};
+
+// Participants present on at least one day of the range, e.g. to preselect them in a split.
+export const getParticipantsPresentDuring = (participants: Participant[], start: string, end?: string): Participant[] => {
+  const days = getDaysInRange(start, end);
+  const present = participants.filter(p => days.some(day => isPresentOn(p, day)));
+  return present.length > 0 ? present : participants;
+};
+
+export const describePresence = (participant: Participant, formatDay: (date: string) => string): string => {
+  if (participant.arrivalDate && participant.departureDate) return `Del ${formatDay(participant.arrivalDate)} al ${formatDay(participant.departureDate)}`;
+  if (participant.arrivalDate) return `Desde el ${formatDay(participant.arrivalDate)}`;
+  if (participant.departureDate) return `Hasta el ${formatDay(participant.departureDate)}`;
+  return 'Todo el viaje';
+};
+
+// Returns an error message if the stay can't be saved.
+export const validatePresence = (arrivalDate: string, departureDate: string): string | null => {
+  if (arrivalDate && departureDate && departureDate < arrivalDate) return "La fecha de salida no puede ser anterior a la de llegada.";
+  return null;
+};
+
+// Why someone's share is lower: the default-split expenses on days they were away. Expenses with an explicit
+// split are left out, as whoever logged them chose who shares them. `expenses` must be in the base currency.
+export const getAbsenceSummaries = (expenses: Expense[], participants: Participant[]): Record<string, AbsenceSummary> => {
+  const summaries: Record<string, AbsenceSummary> = {};
+  participants.filter(hasPresenceDates).forEach(p => summaries[p.id] = { count: 0, amount: 0 });
+  if (Object.keys(summaries).length === 0) return summaries;
+  expenses.filter(exp => !exp.split).forEach(exp => {
+    const days = getDaysInRange(exp.date, exp.endDate);
+    const dailyAmount = exp.amount / days.length;
+    const missed: Record<string, boolean> = {};
+    days.forEach(day => {
+      const present = getPresentParticipants(participants, day);
+      Object.keys(summaries).forEach(id => {
+        const share = present.some(p => p.id === id) ? dailyAmount / present.length : 0;
+        if (share === 0) missed[id] = true;
+        summaries[id].amount += dailyAmount / participants.length - share;
+      });
+    });
+    Object.keys(missed).forEach(id => { summaries[id].count += 1; });
+  });
+  return summaries;
+};
@@ -0,0 +1,71 @@
+import { Expense } from '../types';
+import { getCurrencyMinorDigits } from './settlement';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+export const MAX_EXPENSE_RANGE_DAYS = 366;
+
+// The part of an expense attributed to a single day of its date range.
+export interface DailyExpensePortion {
+  expense: Expense;
+  date: string; // YYYY-MM-DD
+  amount: number;
+  dayIndex: number; // 0-based position within the range
+  totalDays: number;
+}
+
+const parseDay = (date: string): number => {
+  const [year, month, day] = date.split('-').map(Number);
+  return Date.UTC(year, month - 1, day);
+};
+
+const formatDay = (time: number): string => new Date(time).toISOString().split('T')[0];
+
+export const addDays = (date: string, days: number): string => formatDay(parseDay(date) + days * MS_PER_DAY);
+
+// Whole days from `start` to `end`, negative if `end` comes first.
+export const getDaysBetween = (start: string, end: string): number => Math.round((parseDay(end) - parseDay(start)) / MS_PER_DAY);
+
+// Inclusive list of YYYY-MM-DD days between two dates. Returns only `start` if the range is invalid.
+export const getDaysInRange = (start: string, end?: string): string[] => {
+  if (!end || end <= start) return [start];
+  const startTime = parseDay(start);
+  const totalDays = Math.min(Math.round((parseDay(end) - startTime) / MS_PER_DAY) + 1, MAX_EXPENSE_RANGE_DAYS);
+  return Array.from({ length: totalDays }, (_, i) => formatDay(startTime + i * MS_PER_DAY));
+};
+
+export const getExpenseDayCount = (expense: Pick<Expense, 'date' | 'endDate'>): number => getDaysInRange(expense.date, expense.endDate).length;
+
+// Splits an expense evenly across the days it covers. Each day is rounded to the minor unit of `currency`,
+// the one `expense.amount` is in, and the rounding remainder goes to the last day so the portions always add
+// up to the amount.
+export const prorateExpense = (expense: Expense, currency: string): DailyExpensePortion[] => {
+  const days = getDaysInRange(expense.date, expense.endDate);
+  const totalDays = days.length;
+  const factor = 10 ** getCurrencyMinorDigits(currency);
+  const dailyAmount = Math.round(expense.amount / totalDays * factor) / factor;
+  return days.map((date, dayIndex) => ({
+    expense,
+    date,
+    amount: dayIndex === totalDays - 1 ? expense.amount - dailyAmount * (totalDays - 1) : dailyAmount,
+    dayIndex,
+    totalDays,
+  }));
+};
+
+export const getPortionsByDay = (expenses: Expense[], currency: string): Map<string, DailyExpensePortion[]> => {
+  const map = new Map<string, DailyExpensePortion[]>();
+  expenses.forEach(exp => {
+    prorateExpense(exp, currency).forEach(portion => {
+      if (!map.has(portion.date)) map.set(portion.date, []);
+      map.get(portion.date)!.push(portion);
+    });
+  });
+  return map;
+};
+
+// Moves an expense so it starts on `date`. Multi-day expenses keep their length, so the end date moves too.
+export const moveExpenseToDate = (expense: Expense, date: string): Expense => {
+  if (!expense.endDate) return { ...expense, date };
+  const offset = parseDay(date) - parseDay(expense.date);
+  return { ...expense, date, endDate: formatDay(parseDay(expense.endDate) + offset) };
+};
@@ -0,0 +1,80 @@
+import { createWorker } from 'tesseract.js';
+import { ExpenseCategory, TripCategory } from '../types';
+import { parseStatementAmount, parseStatementDate } from './statementImport';
+
+// The OCR engine runs fully on the device: worker, WASM core and language data are copied to dist/ocr
+// by `npm run ocr-assets` and served with the app, so receipts never leave the browser.
+const OCR_ASSETS_PATH = '/dist/ocr';
+const OCR_LANGUAGES = ['spa', 'eng'];
+
+export interface ReceiptSuggestion {
+  amount?: number;
+  date?: string; // YYYY-MM-DD
+  description?: string;
+  category?: string; // TripCategory id
+}
+
+// `onProgress` receives a value between 0 and 1 while the text is being recognised.
+export const recognizeReceiptText = async (image: string, onProgress?: (progress: number) => void): Promise<string> => {
+  const worker = await createWorker(OCR_LANGUAGES, undefined, {
+    workerPath: `${OCR_ASSETS_PATH}/worker.min.js`,
+    corePath: `${OCR_ASSETS_PATH}/core`,
+    langPath: `${OCR_ASSETS_PATH}/lang`,
+    workerBlobURL: false,
+    logger: message => { if (message.status === 'recognizing text') onProgress?.(message.progress); },
+  });
+  try {
+    const { data } = await worker.recognize(image);
+    return data.text.trim();
+  } finally {
+    await worker.terminate();
+  }
+};
+
+const TOTAL_LINE = /\b(total|importe|a pagar|amount due|balance due)\b/i;
+const EXCLUDED_TOTAL_LINE = /\b(sub\s*-?total|base imponible|total\s+iva|cuota|total tax|cambio|change|entregado)\b/i;
+const AMOUNT_PATTERN = /\d{1,3}(?:[.,]\d{3})*[.,]\d{2}\b/g;
+const DATE_PATTERN = /\b(\d{4}-\d{1,2}-\d{1,2}|\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4})\b/;
+
+const CATEGORY_KEYWORDS: [ExpenseCategory, RegExp][] = [
+  [ExpenseCategory.ALOJAMIENTO, /hotel|hostal|hostel|apartamento|alojamiento|booking|airbnb|camping|pensi[oó]n/i],
+  [ExpenseCategory.TRANSPORTE, /taxi|uber|cabify|renfe|metro|autob[uú]s|\bbus\b|\btren\b|vuelo|gasolin|carburante|parking|aparcamiento|peaje|repsol|cepsa/i],
+  [ExpenseCategory.ENTRADAS, /entradas?\b|museo|museum|admission|concierto|teatro|cine/i],
+  [ExpenseCategory.ACTIVIDADES, /tour|excursi[oó]n|visita guiada|alquiler|kayak|surf|buceo|\bspa\b/i],
+  [ExpenseCategory.COMIDA, /restaurante|restaurant|cafeter[ií]a|caf[eé]|\bbar\b|pizzer|men[uú]|cerveza|bebida|mercadona|carrefour|supermercado|lidl|panader/i],
+  [ExpenseCategory.COMPRAS, /tienda|shop|store|souvenir|farmacia|ropa|boutique/i],
+];
+
+const findAmounts = (line: string): number[] =>
+  (line.match(AMOUNT_PATTERN) || []).map(match => parseStatementAmount(match)).filter((amount): amount is number => amount !== null);
+
+const normalize = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+// Best-effort guesses from the recognised text; every field is optional and only offered for confirmation.
+// Only categories the trip actually has are suggested: one whose name is printed on the receipt wins over keyword guesses.
+export const parseReceiptText = (text: string, categories: TripCategory[]): ReceiptSuggestion => {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  const suggestion: ReceiptSuggestion = {};
+
+  // The total is usually the last "TOTAL" line; fall back to the largest amount printed on the receipt.
+  const totalLines = lines.filter(line => TOTAL_LINE.test(line) && !EXCLUDED_TOTAL_LINE.test(line));
+  const totals = totalLines.flatMap(findAmounts);
+  const amount = totals.length > 0 ? totals[totals.length - 1] : Math.max(0, ...lines.flatMap(findAmounts));
+  if (amount > 0) suggestion.amount = amount;
+
+  const dateMatch = text.match(DATE_PATTERN);
+  const date = dateMatch ? parseStatementDate(dateMatch[1]) : null;
+  if (date && !isNaN(new Date(date + 'T00:00:00Z').getTime())) suggestion.date = date;
+
+  // The merchant name is normally printed first, before addresses, tax ids and item lines.
+  const merchant = lines.find(line => /[a-záéíóúñ]{3,}/i.test(line) && !/\d{3,}|c\/|calle|cif|nif|tel/i.test(line));
+  if (merchant) suggestion.description = merchant.replace(/\s+/g, ' ').slice(0, 60);
+
+  const normalizedText = normalize(text);
+  const named = categories.find(cat => cat.name.trim().length >= 3 && normalizedText.includes(normalize(cat.name.trim())));
+  const match = CATEGORY_KEYWORDS.find(([id, pattern]) => categories.some(cat => cat.id === id) && pattern.test(text));
+  if (named) suggestion.category = named.id;
+  else if (match) suggestion.category = match[0];
+
+  return suggestion;
+};
@@ -0,0 +1,142 @@
+import { SettledPayment } from '../types';
+
+// Above this many participants with a non-zero balance the exact search (2^n states) gets too slow
+// and we fall back to settling everyone as a single group, which needs at most n - 1 transfers.
+const MAX_EXACT_PARTICIPANTS = 15;
+
+export interface SettlementOptions {
+  currency: string;
+  participants: string[]; // Trip order, used to break ties deterministically
+  avoidPairs?: [string, string][]; // Participants who prefer not to pay each other directly
+}
+
+export const getCurrencyMinorDigits = (currency: string): number => {
+  try {
+    return new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+  } catch {
+    return 2;
+  }
+};
+
+// Rounds every balance to whole minor units (cents) and makes them sum exactly to zero. The leftover
+// units go to the participants whose balance lost the most in rounding, ties broken by trip order.
+export const toMinorUnitBalances = (balances: Record<string, number>, currency: string, participants: string[]): Record<string, number> => {
+  const factor = 10 ** getCurrencyMinorDigits(currency);
+  const names = participants.filter(name => name in balances);
+  const exact = names.map(name => balances[name] * factor);
+  const rounded = exact.map(value => Math.round(value));
+  let residual = -rounded.reduce((sum, value) => sum + value, 0);
+  const step = residual > 0 ? 1 : -1;
+  const order = names.map((_, i) => i).sort((a, b) => step * ((exact[b] - rounded[b]) - (exact[a] - rounded[a])) || a - b);
+  for (let k = 0; residual !== 0; k = (k + 1) % order.length) {
+    rounded[order[k]] += step;
+    residual -= step;
+  }
+  return Object.fromEntries(names.map((name, i) => [name, rounded[i]]));
+};
+
+// Splits the participants into as many independent zero-sum groups as possible. Each group of k people
+// settles with k - 1 transfers, so maximising the number of groups minimises the total transfers.
+const findZeroSumGroups = (amounts: number[]): number[][] => {
+  const n = amounts.length;
+  if (n > MAX_EXACT_PARTICIPANTS) return [amounts.map((_, i) => i)];
+  const full = (1 << n) - 1;
+  const sums = new Array<number>(full + 1).fill(0);
+  const groups = new Array<number>(full + 1).fill(0);
+  for (let mask = 1; mask <= full; mask++) {
+    const lowest = 31 - Math.clz32(mask & -mask);
+    sums[mask] = sums[mask & (mask - 1)] + amounts[lowest];
+    let best = 0;
+    for (let i = 0; i < n; i++) if (mask & (1 << i)) best = Math.max(best, groups[mask ^ (1 << i)]);
+    groups[mask] = best + (sums[mask] === 0 ? 1 : 0);
+  }
+
+  // Walk back from the full set removing one person at a time; every zero-sum set on the way closes a group.
+  const result: number[][] = [];
+  let current: number[] = [];
+  let mask = full;
+  while (mask) {
+    const target = groups[mask] - (sums[mask] === 0 ? 1 : 0);
+    for (let i = 0; i < n; i++) {
+      if (!(mask & (1 << i)) || groups[mask ^ (1 << i)] !== target) continue;
+      current.push(i);
+      mask ^= 1 << i;
+      break;
+    }
+    if (sums[mask] === 0) {
+      result.push(current);
+      current = [];
+    }
+  }
+  return result;
+};
+
+const pairKey = (a: string, b: string) => [a, b].sort().join('\u0000');
+
+// Largest debtor pays the largest creditor they don't mind paying. If every remaining creditor is a pair to
+// avoid, the debtor pays someone else who can pass the money on, preferably another debtor, who then owes that
+// much more. Only when nobody can do that do we pay one of the avoided creditors and flag the transfer. There are
+// at most as many hand-overs as members, so a debt can't keep bouncing around.
+const settleGroup = (members: { name: string; amount: number; order: number }[], avoided: Set<string>): { from: string; to: string; amount: number; breaksPreference: boolean }[] => {
+  const byAmount = (a: { amount: number; order: number }, b: { amount: number; order: number }) => Math.abs(b.amount) - Math.abs(a.amount) || a.order - b.order;
+  const people = members.map(m => ({ ...m }));
+  const canPay = (a: string, b: string) => !avoided.has(pairKey(a, b));
+  let hopsLeft = people.length;
+  const transfers: { from: string; to: string; amount: number; breaksPreference: boolean }[] = [];
+  const pay = (from: { name: string; amount: number }, to: { name: string; amount: number }, amount: number) => {
+    transfers.push({ from: from.name, to: to.name, amount, breaksPreference: !canPay(from.name, to.name) });
+    from.amount += amount;
+    to.amount -= amount;
+  };
+  for (let debtor = people.filter(m => m.amount < 0).sort(byAmount)[0]; debtor; debtor = people.filter(m => m.amount < 0).sort(byAmount)[0]) {
+    const open = people.filter(m => m.amount > 0).sort(byAmount);
+    if (open.length === 0) break;
+    const creditor = open.find(c => canPay(debtor.name, c.name));
+    if (creditor) { pay(debtor, creditor, Math.min(-debtor.amount, creditor.amount)); continue; }
+    const target = open[0];
+    const intermediary = people
+      .filter(m => m.amount <= 0 && m !== debtor && canPay(debtor.name, m.name) && canPay(m.name, target.name))
+      .sort((a, b) => a.amount - b.amount || a.order - b.order)[0];
+    if (intermediary && hopsLeft > 0) {
+      hopsLeft--;
+      pay(debtor, intermediary, -debtor.amount);
+    } else {
+      pay(debtor, target, Math.min(-debtor.amount, target.amount));
+    }
+  }
+  // Passing money on can make someone pay the same creditor twice; those become a single transfer.
+  const merged: typeof transfers = [];
+  transfers.forEach(t => {
+    const same = merged.find(m => m.from === t.from && m.to === t.to);
+    if (same) same.amount += t.amount;
+    else merged.push({ ...t });
+  });
+  return merged;
+};
+
+// Turns balances (positive = is owed money, in major units) into the transfers that settle them.
+// Works in integer minor units so the payments add up to the cent, uses the fewest transfers it can
+// and, where possible, avoids direct payments between the pairs in `avoidPairs`.
+export const computeSettlement = (balances: Record<string, number>, { currency, participants, avoidPairs = [] }: SettlementOptions): SettledPayment[] => {
+  const factor = 10 ** getCurrencyMinorDigits(currency);
+  const minor = toMinorUnitBalances(balances, currency, participants);
+  const everyone = participants.map((name, order) => ({ name, amount: minor[name] || 0, order }));
+  const members = everyone.filter(m => m.amount !== 0);
+  if (members.length < 2) return [];
+  const avoided = new Set(avoidPairs.map(([a, b]) => pairKey(a, b)));
+
+  const grouped = findZeroSumGroups(members.map(m => m.amount))
+    .flatMap(group => settleGroup(group.map(i => members[i]), avoided));
+  // Splitting into groups can leave a debtor with only avoided creditors; settling everyone together, including
+  // those already even, gives them more people to pay, so keep whichever plan breaks fewer preferences.
+  let transfers = grouped;
+  if (grouped.some(t => t.breaksPreference)) {
+    const together = settleGroup(everyone, avoided);
+    const broken = (plan: typeof grouped) => plan.filter(t => t.breaksPreference).length;
+    if (broken(together) < broken(grouped)) transfers = together;
+  }
+
+  return transfers.map(({ from, to, amount, breaksPreference }) => ({
+    from, to, amount: amount / factor, ...(breaksPreference ? { breaksPreference } : {}),
+  }));
+};
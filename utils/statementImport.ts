@@ -0,0 +1,126 @@
+import { Expense } from '../types';
+import { isCreditEntry } from './expenseKinds';
+
+export interface StatementColumnMapping {
+  date: number;
+  amount: number;
+  merchant: number;
+  hasHeader: boolean;
+}
+
+export interface StatementRow {
+  index: number; // Position in the original file, used as a stable key
+  date: string; // YYYY-MM-DD
+  amount: number; // Always positive, in the trip's base currency
+  merchant: string;
+  isCredit: boolean; // Money coming into the account, e.g. a refund from a shop
+}
+
+export interface StatementMatch {
+  row: StatementRow;
+  expense?: Expense; // Logged expense the row was reconciled with, if any
+}
+
+const MAX_DAYS_APART = 3;
+const AMOUNT_TOLERANCE = 0.01;
+
+// Accepts ISO dates plus the day-first formats used by Spanish banks (31/12/2024, 31-12-24, 31.12.2024).
+export const parseStatementDate = (value: string): string | null => {
+  const text = value.trim();
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso) return `${iso[1]}-${iso[2].padStart(2, '0')}-${iso[3].padStart(2, '0')}`;
+  const dayFirst = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})/);
+  if (dayFirst) {
+    const year = dayFirst[3].length === 2 ? `20${dayFirst[3]}` : dayFirst[3];
+    return `${year}-${dayFirst[2].padStart(2, '0')}-${dayFirst[1].padStart(2, '0')}`;
+  }
+  return null;
+};
+
+// Handles "1.234,56 €", "1,234.56", "-12,50", "12.50", "1.234" and "(45.00)", keeping the sign: negative for
+// a minus or parentheses. With a single kind of separator, it is a thousands separator if it repeats or is
+// followed by exactly three digits after a non-zero whole part, as in "1,234"; otherwise it is the decimal point.
+export const parseStatementAmount = (value: string): number | null => {
+  const text = value.replace(/[^\d,.\-()]/g, '');
+  const digits = text.replace(/[-()]/g, '');
+  if (!digits) return null;
+  const lastComma = digits.lastIndexOf(',');
+  const lastDot = digits.lastIndexOf('.');
+  let decimal: string | null = null;
+  if (lastComma >= 0 && lastDot >= 0) decimal = lastComma > lastDot ? ',' : '.';
+  else if (lastComma >= 0 || lastDot >= 0) {
+    const separator = lastComma >= 0 ? ',' : '.';
+    const parts = digits.split(separator);
+    const isThousands = parts.length > 2 || (parts[1].length === 3 && /[1-9]/.test(parts[0]));
+    decimal = isThousands ? null : separator;
+  }
+  const normalized = digits.split('').filter(char => /\d/.test(char) || char === decimal).join('').replace(',', '.');
+  const amount = parseFloat(normalized);
+  if (isNaN(amount) || amount === 0) return null;
+  return text.includes('-') || text.includes('(') ? -amount : amount;
+};
+
+// Cells some banks use to tell money in from money out, e.g. a "Tipo" column with "Cargo" or "Abono"
+const CREDIT_LABELS = /^(abono|cr[eé]dito|ingreso|credit)$/i;
+
+// Guesses which columns hold the date, amount and merchant from common header names.
+export const guessStatementMapping = (rows: string[][]): StatementColumnMapping => {
+  const header = (rows[0] || []).map(cell => cell.trim().toLowerCase());
+  const find = (patterns: RegExp, fallback: number) => {
+    const index = header.findIndex(cell => patterns.test(cell));
+    return index >= 0 ? index : fallback;
+  };
+  const hasHeader = header.some(cell => /[a-záéíóú]/.test(cell)) && parseStatementDate(rows[0]?.[0] || '') === null;
+  return {
+    date: find(/fecha|date|día/, 0),
+    amount: find(/importe|amount|cantidad|cargo|valor/, Math.min(2, header.length - 1)),
+    merchant: find(/concepto|comercio|merchant|descrip|detalle|payee/, Math.min(1, header.length - 1)),
+    hasHeader,
+  };
+};
+
+// When a statement has negative amounts, those are its payments and the positive ones money coming in;
+// statements without any list every payment as positive. Rows marked as a credit (see CREDIT_LABELS) always are one.
+export const parseStatementRows = (rows: string[][], mapping: StatementColumnMapping): { rows: StatementRow[]; skipped: number } => {
+  const parsed: (StatementRow & { signed: number })[] = [];
+  let skipped = 0;
+  rows.slice(mapping.hasHeader ? 1 : 0).forEach((cells, i) => {
+    const date = parseStatementDate(cells[mapping.date] || '');
+    const signed = parseStatementAmount(cells[mapping.amount] || '');
+    if (!date || signed === null) { skipped++; return; }
+    const isCredit = cells.some(cell => CREDIT_LABELS.test(cell.trim()));
+    parsed.push({ index: i, date, amount: Math.abs(signed), merchant: (cells[mapping.merchant] || '').trim(), isCredit, signed });
+  });
+  const paymentsAreNegative = parsed.some(row => row.signed < 0);
+  return {
+    rows: parsed.map(({ signed, ...row }) => ({ ...row, isCredit: row.isCredit || (paymentsAreNegative && signed > 0) })),
+    skipped,
+  };
+};
+
+const daysApart = (a: string, b: string) => Math.abs(new Date(a + 'T00:00:00Z').getTime() - new Date(b + 'T00:00:00Z').getTime()) / 86400000;
+
+// Pairs each statement row with at most one logged expense of the same amount (original or base currency)
+// within a few days, money coming in only with refunds and adjustments. Closest dates are paired first so one
+// expense never absorbs two rows.
+export const reconcileStatement = (rows: StatementRow[], expenses: Expense[], getBaseAmount: (exp: Expense) => number): StatementMatch[] => {
+  const candidates: { rowIndex: number; expense: Expense; distance: number }[] = [];
+  rows.forEach((row, rowIndex) => {
+    expenses.forEach(expense => {
+      if (isCreditEntry(expense) !== row.isCredit) return;
+      const sameAmount = Math.abs(expense.amount - row.amount) < AMOUNT_TOLERANCE || Math.abs(getBaseAmount(expense) - row.amount) < AMOUNT_TOLERANCE;
+      const distance = daysApart(expense.date, row.date);
+      if (sameAmount && distance <= MAX_DAYS_APART) candidates.push({ rowIndex, expense, distance });
+    });
+  });
+  candidates.sort((a, b) => a.distance - b.distance);
+
+  const matches: StatementMatch[] = rows.map(row => ({ row }));
+  const usedExpenses = new Set<string>();
+  candidates.forEach(({ rowIndex, expense }) => {
+    if (matches[rowIndex].expense || usedExpenses.has(expense.id)) return;
+    matches[rowIndex].expense = expense;
+    usedExpenses.add(expense.id);
+  });
+  return matches;
+};
@@ -0,0 +1,29 @@
+import { Expense } from '../types';
+
+export interface TagTotal {
+  tag: string;
+  total: number; // In the trip's base currency
+  count: number;
+}
+
+export const normalizeTag = (tag: string): string => tag.trim().replace(/\s+/g, ' ');
+
+export const hasTag = (expense: Expense, tag: string): boolean =>
+  (expense.tags || []).some(t => t.toLowerCase() === tag.toLowerCase());
+
+// Tags used anywhere in the trip, for autocompletion. Tags differing only in case are listed once,
+// with the spelling that was used first.
+export const getUsedTags = (expenses: Expense[]): string[] => {
+  const byKey = new Map<string, string>();
+  expenses.forEach(exp => (exp.tags || []).forEach(tag => { if (!byKey.has(tag.toLowerCase())) byKey.set(tag.toLowerCase(), tag); }));
+  return Array.from(byKey.values()).sort((a, b) => a.localeCompare(b, 'es'));
+};
+
+// Totals per tag, largest first. An expense with several tags counts fully towards each of them.
+export const getTotalsByTag = (expenses: Expense[], getBaseAmount: (exp: Expense) => number): TagTotal[] =>
+  getUsedTags(expenses)
+    .map(tag => {
+      const tagged = expenses.filter(exp => hasTag(exp, tag));
+      return { tag, total: tagged.reduce((sum, exp) => sum + getBaseAmount(exp), 0), count: tagged.length };
+    })
+    .sort((a, b) => b.total - a.total || a.tag.localeCompare(b.tag, 'es'));
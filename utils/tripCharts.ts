@@ -0,0 +1,141 @@
+import { Expense, Trip } from '../types';
+import { CHART_COLORS } from '../constants';
+import { getCategory, getCategoryHexColor, getTripCategories } from './categories';
+import { getExpenseShares, getSharesByParticipant } from './expenseSplits';
+import { getDaysInRange, getPortionsByDay } from './proration';
+import { getPaidByParticipant } from './kitty';
+
+export type TripChartKind = 'categoryBar' | 'categoryDonut' | 'dailySpending' | 'participantCategories' | 'payerVsConsumer';
+
+export interface TripChartDataset {
+  label: string;
+  data: number[];
+  colors: string | string[]; // Hex colours, one per point for pie/donut and single-series bars
+  type?: 'bar' | 'line'; // Overrides the chart type, to mix bars and lines
+  secondaryAxis?: boolean; // Plot against a second y axis on the right, e.g. a running total
+}
+
+// Library-agnostic description of a chart: what to draw, not how. Rendered by TripChart on screen and in the PDF.
+export interface TripChartSpec {
+  kind: TripChartKind;
+  title: string;
+  type: 'bar' | 'line' | 'doughnut';
+  labels: string[];
+  datasets: TripChartDataset[];
+  currency: string;
+  stacked?: boolean;
+}
+
+export interface TripChartInput {
+  trip: Trip;
+  expenses: Expense[]; // Already converted to the trip's base currency
+  currency: string;
+}
+
+export const TRIP_CHART_LABELS: Record<TripChartKind, string> = {
+  categoryBar: 'Gastos por Categoría',
+  categoryDonut: 'Reparto por Categoría',
+  dailySpending: 'Gasto Diario y Acumulado',
+  participantCategories: 'Consumo por Participante y Categoría',
+  payerVsConsumer: 'Pagado frente a Consumido',
+};
+
+const getParticipantColor = (index: number) => CHART_COLORS[index % CHART_COLORS.length];
+
+const getCategoryTotals = ({ trip, expenses }: TripChartInput) => {
+  const totals: Record<string, number> = {};
+  expenses.forEach(exp => { totals[exp.category] = (totals[exp.category] || 0) + exp.amount; });
+  // Trip categories first in their configured order, then any unknown ids left on old expenses
+  const ids = [...getTripCategories(trip).map(cat => cat.id), ...Object.keys(totals)].filter((id, i, all) => all.indexOf(id) === i && (totals[id] || 0) > 0);
+  const categories = ids.map(id => getCategory(trip, id));
+  return { labels: categories.map(cat => cat.name), data: ids.map(id => totals[id]), colors: categories.map(getCategoryHexColor) };
+};
+
+const buildCategoryBar = (input: TripChartInput): TripChartSpec => {
+  const { labels, data, colors } = getCategoryTotals(input);
+  return { kind: 'categoryBar', title: TRIP_CHART_LABELS.categoryBar, type: 'bar', labels, datasets: [{ label: 'Total Gastado', data, colors }], currency: input.currency };
+};
+
+const buildCategoryDonut = (input: TripChartInput): TripChartSpec => {
+  const { labels, data, colors } = getCategoryTotals(input);
+  return { kind: 'categoryDonut', title: TRIP_CHART_LABELS.categoryDonut, type: 'doughnut', labels, datasets: [{ label: 'Total Gastado', data, colors }], currency: input.currency };
+};
+
+// Every day from the first to the last expense, including days without spending, so the line has no gaps.
+// Multi-day expenses are prorated across the days they cover.
+const buildDailySpending = ({ expenses, currency }: TripChartInput): TripChartSpec => {
+  const portionsByDay = getPortionsByDay(expenses, currency);
+  const dates = Array.from(portionsByDay.keys()).sort();
+  const days = dates.length > 0 ? getDaysInRange(dates[0], dates[dates.length - 1]) : [];
+  const daily = days.map(day => (portionsByDay.get(day) || []).reduce((sum, portion) => sum + portion.amount, 0));
+  let runningTotal = 0;
+  const cumulative = daily.map(amount => (runningTotal += amount));
+  return {
+    kind: 'dailySpending',
+    title: TRIP_CHART_LABELS.dailySpending,
+    type: 'bar',
+    labels: days.map(day => new Date(day + 'T00:00:00').toLocaleDateString('es-ES', { day: 'numeric', month: 'short' })),
+    datasets: [
+      { label: 'Gasto del día', data: daily, colors: '#2dd4bf' },
+      { label: 'Acumulado', data: cumulative, colors: '#facc15', type: 'line', secondaryAxis: true },
+    ],
+    currency,
+  };
+};
+
+// What each participant consumed, broken down by category: one stacked bar per person.
+const buildParticipantCategories = ({ trip, expenses, currency }: TripChartInput): TripChartSpec => {
+  const byCategory: Record<string, Record<string, number>> = {};
+  expenses.forEach(exp => {
+    const shares = getExpenseShares(exp, trip.participants);
+    byCategory[exp.category] = byCategory[exp.category] || {};
+    Object.entries(shares).forEach(([participantId, share]) => { byCategory[exp.category][participantId] = (byCategory[exp.category][participantId] || 0) + share; });
+  });
+  const ids = [...getTripCategories(trip).map(cat => cat.id), ...Object.keys(byCategory)].filter((id, i, all) => all.indexOf(id) === i && byCategory[id]);
+  return {
+    kind: 'participantCategories',
+    title: TRIP_CHART_LABELS.participantCategories,
+    type: 'bar',
+    labels: trip.participants.map(p => p.name),
+    datasets: ids.map(id => {
+      const category = getCategory(trip, id);
+      return { label: category.name, data: trip.participants.map(p => byCategory[id][p.id] || 0), colors: getCategoryHexColor(category) };
+    }),
+    currency,
+    stacked: true,
+  };
+};
+
+const buildPayerVsConsumer = ({ trip, expenses, currency }: TripChartInput): TripChartSpec => {
+  const paid = getPaidByParticipant(trip, expenses);
+  const consumed = getSharesByParticipant(expenses, trip.participants);
+  return {
+    kind: 'payerVsConsumer',
+    title: TRIP_CHART_LABELS.payerVsConsumer,
+    type: 'bar',
+    labels: trip.participants.map(p => p.name),
+    datasets: [
+      { label: 'Pagado', data: trip.participants.map(p => paid[p.id] || 0), colors: getParticipantColor(0) },
+      { label: 'Consumido', data: trip.participants.map(p => consumed[p.id] || 0), colors: getParticipantColor(1) },
+    ],
+    currency,
+  };
+};
+
+// New charts only need a builder here and a label above to show up in the summary and the PDF.
+export const TRIP_CHART_BUILDERS: Record<TripChartKind, (input: TripChartInput) => TripChartSpec> = {
+  categoryBar: buildCategoryBar,
+  categoryDonut: buildCategoryDonut,
+  dailySpending: buildDailySpending,
+  participantCategories: buildParticipantCategories,
+  payerVsConsumer: buildPayerVsConsumer,
+};
+
+export const hasChartData = (spec: TripChartSpec): boolean => spec.datasets.some(ds => ds.data.some(value => value > 0));
+
+// The charts to draw for a trip, in display order, skipping those with nothing to show.
+export const buildTripCharts = (input: TripChartInput, kinds: TripChartKind[] = Object.keys(TRIP_CHART_BUILDERS) as TripChartKind[]): TripChartSpec[] =>
+  kinds
+    .filter(kind => (kind !== 'participantCategories' && kind !== 'payerVsConsumer') || input.trip.participants.length > 1)
+    .map(kind => TRIP_CHART_BUILDERS[kind](input))
+    .filter(hasChartData);
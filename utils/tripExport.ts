@@ -0,0 +1,124 @@
+import { Expense, SettledPayment, SettlementTransfer, Trip } from '../types';
+import { EXPENSE_KIND_LABELS, SPLIT_MODE_LABELS, TRANSFER_METHOD_LABELS } from '../constants';
+import { getExpenseCurrency, getTripBaseCurrency, toBaseCurrencyExpense } from './currency';
+import { getExpenseShares, getSharesByParticipant } from './expenseSplits';
+import { getCategoryName, getTripCategories } from './categories';
+import { toCsv } from './csv';
+import { getTotalsByTag } from './tags';
+import { getSignedAmount } from './expenseKinds';
+import { getKittyName, getKittySummary, getPaidByParticipant, getPayerName } from './kitty';
+import { getParticipantName } from './participants';
+import { getPaymentAccountName, getPaymentAccountTotals, getTripPaymentAccounts } from './paymentAccounts';
+import { SpreadsheetTable } from './xlsx';
+
+export interface TripExportData {
+  trip: Trip;
+  expenses: Expense[]; // Expenses to export, already filtered by the list filters
+  transfers: SettlementTransfer[];
+  settlements: SettledPayment[]; // Suggestions for the whole trip, regardless of filters
+  filtersApplied: boolean;
+}
+
+const round2 = (amount: number) => Math.round(amount * 100) / 100;
+
+const describeSplit = (exp: Expense, trip: Trip): string => {
+  const name = (id: string) => getParticipantName(trip, id);
+  if (!exp.split) return 'Todos a partes iguales';
+  if (exp.split.mode === 'items') {
+    const items = (exp.split.items || []).map(item => `${item.description || 'Concepto'}=${item.amount} (${item.participants.map(name).join(' + ')})`);
+    const extras = [exp.split.tax && `impuestos=${exp.split.tax}`, exp.split.tip && `propina=${exp.split.tip}`, exp.split.discount && `descuento=${exp.split.discount}`].filter(Boolean);
+    return `${SPLIT_MODE_LABELS.items}: ${[...items, ...extras].join(', ')}`;
+  }
+  const values = exp.split.values || {};
+  return `${SPLIT_MODE_LABELS[exp.split.mode]}: ${exp.split.participants.map(id => exp.split!.mode === 'equal' ? name(id) : `${name(id)}=${values[id] ?? 0}`).join(', ')}`;
+};
+
+export const buildTripExportTables = ({ trip, expenses, transfers, settlements }: TripExportData): SpreadsheetTable[] => {
+  const baseCurrency = getTripBaseCurrency(trip);
+  const baseExpenses = expenses.map(exp => toBaseCurrencyExpense(exp, trip));
+
+  const expenseRows: (string | number)[][] = [[
+    'ID', 'Tipo', 'Devuelve el gasto', 'Fecha', 'Hasta', 'Descripción', 'Categoría', 'Etiquetas', 'Cantidad', 'Moneda', `Cantidad (${baseCurrency})`, 'Pagado por', 'Cuenta de pago', 'Reparto',
+    ...trip.participants.map(p => `Parte de ${p.name} (${baseCurrency})`), 'Comprobante', 'Creado por', 'Creado el',
+  ]];
+  expenses.forEach((exp, i) => {
+    const shares = getExpenseShares(baseExpenses[i], trip.participants);
+    expenseRows.push([
+      exp.id, EXPENSE_KIND_LABELS[exp.kind || 'expense'], exp.refundOf || '', exp.date, exp.endDate || '', exp.description, getCategoryName(trip, exp.category), (exp.tags || []).join('; '), round2(getSignedAmount(exp)), getExpenseCurrency(exp, trip), round2(baseExpenses[i].amount),
+      getPayerName(trip, exp.paidBy), exp.paymentMethod ? getPaymentAccountName(trip, exp.paymentMethod) : '', describeSplit(exp, trip),
+      ...trip.participants.map(p => round2(shares[p.id] || 0)), exp.proofImage ? 'Sí' : 'No', exp.createdBy || '', exp.createdAt || '',
+    ]);
+  });
+
+  const paidBy = getPaidByParticipant(trip, baseExpenses);
+  const consumed = getSharesByParticipant(baseExpenses, trip.participants);
+  const participantRows: (string | number)[][] = [['Participante', `Pagado (${baseCurrency})`, `Consumido (${baseCurrency})`, `Diferencia (${baseCurrency})`]];
+  trip.participants.forEach(p => participantRows.push([p.name, round2(paidBy[p.id] || 0), round2(consumed[p.id] || 0), round2((paidBy[p.id] || 0) - (consumed[p.id] || 0))]));
+
+  const settlementRows: (string | number)[][] = [['Paga', 'Recibe', `Cantidad (${baseCurrency})`]];
+  settlements.forEach(payment => settlementRows.push([getParticipantName(trip, payment.from), getParticipantName(trip, payment.to), round2(payment.amount)]));
+
+  const tagRows: (string | number)[][] = [['Etiqueta', 'Gastos', `Total (${baseCurrency})`]];
+  getTotalsByTag(baseExpenses, exp => exp.amount).forEach(({ tag, count, total }) => tagRows.push([tag, count, round2(total)]));
+
+  const accountRows: (string | number)[][] = [['Cuenta', 'Titular', 'Gastos', `Total (${baseCurrency})`, `En otra moneda (${baseCurrency})`, `Comisiones estimadas (${baseCurrency})`]];
+  getPaymentAccountTotals(expenses, trip).forEach(({ account, count, total, foreignTotal, fees }) =>
+    accountRows.push([account.name, account.owner ? getParticipantName(trip, account.owner) : 'Común', count, round2(total), round2(foreignTotal), round2(fees)]));
+
+  const transferRows: (string | number)[][] = [['Fecha', 'Paga', 'Recibe', `Cantidad (${baseCurrency})`, 'Método', 'Nota']];
+  transfers.forEach(tr => transferRows.push([tr.date, getParticipantName(trip, tr.from), getParticipantName(trip, tr.to), round2(tr.amount), tr.method ? TRANSFER_METHOD_LABELS[tr.method] : '', tr.note || '']));
+
+  const kittyRows: (string | number)[][] = [['Fecha', 'Participante', `Aportación (${baseCurrency})`, 'Nota']];
+  if (trip.kitty) {
+    const kitty = getKittySummary(trip, baseExpenses);
+    trip.kitty.contributions.forEach(c => kittyRows.push([c.date, getParticipantName(trip, c.participant), round2(c.amount), c.note || '']));
+    kittyRows.push([], ['', 'Aportado', round2(kitty.contributed)], ['', 'Pagado desde el bote', round2(kitty.spent)], ['', 'Saldo', round2(kitty.balance)]);
+    Object.entries(kitty.returns).forEach(([id, amount]) => kittyRows.push(['', `Devolver a ${getParticipantName(trip, id)}`, round2(amount)]));
+  }
+
+  return [
+    { name: 'Gastos', rows: expenseRows },
+    { name: 'Participantes', rows: participantRows },
+    { name: 'Etiquetas', rows: tagRows },
+    { name: 'Cuentas de pago', rows: accountRows },
+    ...(trip.kitty ? [{ name: 'Bote común', rows: kittyRows }] : []),
+    { name: 'Liquidación sugerida', rows: settlementRows },
+    { name: 'Pagos realizados', rows: transferRows },
+  ];
+};
+
+// All tables in a single CSV, one section after another separated by a blank line and the table name.
+export const buildTripExportCsv = (data: TripExportData): string =>
+  buildTripExportTables(data).map(table => toCsv([[table.name], ...table.rows])).join('\r\n\r\n');
+
+export const buildTripExportJson = ({ trip, expenses, transfers, settlements, filtersApplied }: TripExportData): string => {
+  const baseCurrency = getTripBaseCurrency(trip);
+  const baseExpenses = expenses.map(exp => toBaseCurrencyExpense(exp, trip));
+  const paidBy = getPaidByParticipant(trip, baseExpenses);
+  const consumed = getSharesByParticipant(baseExpenses, trip.participants);
+  const kitty = trip.kitty ? getKittySummary(trip, baseExpenses) : null;
+  return JSON.stringify({
+    exportedAt: new Date().toISOString(),
+    filtersApplied,
+    trip: { id: trip.id, name: trip.name, tripCode: trip.tripCode, startDate: trip.startDate, endDate: trip.endDate, destinations: trip.destinations, status: trip.status, baseCurrency, exchangeRates: trip.exchangeRates || {}, participants: trip.participants, categories: getTripCategories(trip), paymentAccounts: getTripPaymentAccounts(trip) },
+    expenses: expenses.map((exp, i) => ({
+      ...exp,
+      categoryName: getCategoryName(trip, exp.category),
+      paymentAccountName: exp.paymentMethod ? getPaymentAccountName(trip, exp.paymentMethod) : undefined,
+      currency: getExpenseCurrency(exp, trip),
+      baseAmount: round2(baseExpenses[i].amount),
+      shares: Object.fromEntries(Object.entries(getExpenseShares(baseExpenses[i], trip.participants)).map(([id, share]) => [id, round2(share)])),
+    })),
+    tagTotals: getTotalsByTag(baseExpenses, exp => exp.amount).map(({ tag, count, total }) => ({ tag, count, total: round2(total) })),
+    paymentAccountTotals: getPaymentAccountTotals(expenses, trip).map(({ account, count, total, foreignTotal, fees }) => ({
+      accountId: account.id, name: account.name, count, total: round2(total), foreignTotal: round2(foreignTotal), fees: round2(fees),
+    })),
+    participantTotals: trip.participants.map(p => ({ id: p.id, name: p.name, paid: round2(paidBy[p.id] || 0), consumed: round2(consumed[p.id] || 0) })),
+    kitty: kitty ? {
+      name: getKittyName(trip), contributions: trip.kitty!.contributions, contributed: round2(kitty.contributed), spent: round2(kitty.spent), balance: round2(kitty.balance),
+      returns: Object.fromEntries(Object.entries(kitty.returns).map(([id, amount]) => [id, round2(amount)])),
+    } : undefined,
+    settlements: settlements.map(payment => ({ ...payment, amount: round2(payment.amount) })),
+    transfers,
+  }, null, 2);
+};
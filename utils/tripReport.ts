@@ -0,0 +1,331 @@
+import { Expense, SettledPayment, SettlementTransfer, Trip } from '../types';
+import { EXPENSE_KIND_LABELS, TRANSFER_METHOD_LABELS } from '../constants';
+import { formatCurrency, getExpenseCurrency, getTripBaseCurrency, toBaseCurrencyExpense } from './currency';
+import { getSharesByParticipant } from './expenseSplits';
+import { getCategoryName, getTripCategories } from './categories';
+import { getPaymentAccountName, getPaymentAccountTotals } from './paymentAccounts';
+import { getTotalsByTag } from './tags';
+import { getBudgetProgress, getDaysOverBudget, hasAnyBudget } from './budgets';
+import { getSignedAmount, isCreditEntry } from './expenseKinds';
+import { describePresence, hasPresenceDates } from './presence';
+import { getKittyName, getKittySummary, getPaidByParticipant, getPayerName } from './kitty';
+import { getParticipantName } from './participants';
+
+export interface TripReportData {
+  trip: Trip;
+  expenses: Expense[]; // Every expense of the trip, in its own currency
+  transfers: SettlementTransfer[];
+  settlements: SettledPayment[];
+  chartImages: string[]; // PNG data URLs, e.g. from renderChartImage
+}
+
+// The part of jsPDF's document API the report uses, enough to type it without the library's own typings
+export interface PdfDocument {
+  addPage: () => void;
+  setPage: (page: number) => void;
+  getNumberOfPages: () => number;
+  setFont: (fontName: string, fontStyle?: string) => void;
+  setFontSize: (size: number) => void;
+  setTextColor: (...rgbOrGray: number[]) => void;
+  setFillColor: (...rgbOrGray: number[]) => void;
+  setDrawColor: (...rgbOrGray: number[]) => void;
+  text: (text: string | string[], x: number, y: number, options?: { align?: 'left' | 'right' | 'center' }) => void;
+  splitTextToSize: (text: string, maxWidth: number) => string[];
+  line: (x1: number, y1: number, x2: number, y2: number) => void;
+  rect: (x: number, y: number, width: number, height: number, style?: string) => void;
+  addImage: (imageData: string, format: string, x: number, y: number, width: number, height: number) => void;
+  getImageProperties: (imageData: string) => { width: number; height: number };
+  save: (fileName: string) => void;
+}
+
+interface ReportColumn {
+  header: string;
+  width: number; // mm
+  align?: 'left' | 'right';
+}
+
+// A4 portrait in millimetres, jsPDF's default page
+const PAGE_WIDTH = 210;
+const MARGIN = 14;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const CONTENT_TOP = 24; // Below the running header
+const CONTENT_BOTTOM = 282; // Above the running footer
+const ROW_LINE_HEIGHT = 4.2;
+const ACCENT: [number, number, number] = [13, 148, 136]; // teal-600
+
+const formatReportDate = (date: string, options: Intl.DateTimeFormatOptions = { day: 'numeric', month: 'short', year: 'numeric' }) =>
+  new Date(date.includes('T') ? date : date + 'T00:00:00').toLocaleDateString('es-ES', options);
+
+const getImageFormat = (dataUrl: string): string | null => {
+  const match = dataUrl.match(/^data:image\/(png|jpe?g|webp)/i);
+  if (!match) return null;
+  return match[1].toLowerCase() === 'png' ? 'PNG' : match[1].toLowerCase() === 'webp' ? 'WEBP' : 'JPEG';
+};
+
+// Lays out the whole trip report on `doc`, a fresh jsPDF document. Running headers and page numbers are
+// added at the end, once the number of pages is known; the cover page has neither.
+export const buildTripReportPdf = (doc: PdfDocument, { trip, expenses, transfers, settlements, chartImages }: TripReportData): void => {
+  const baseCurrency = getTripBaseCurrency(trip);
+  const formatBase = (amount: number) => formatCurrency(amount, baseCurrency);
+  const nameOf = (id: string) => getParticipantName(trip, id);
+  const sortedExpenses = [...expenses].sort((a, b) => a.date.localeCompare(b.date) || (a.createdAt || '').localeCompare(b.createdAt || ''));
+  const baseExpenses = sortedExpenses.map(exp => toBaseCurrencyExpense(exp, trip));
+  const totalCost = baseExpenses.reduce((sum, exp) => sum + exp.amount, 0);
+  let y = CONTENT_TOP;
+
+  const newPage = () => { doc.addPage(); y = CONTENT_TOP; };
+  const ensureSpace = (height: number) => { if (y + height > CONTENT_BOTTOM) newPage(); };
+
+  const heading = (text: string) => {
+    ensureSpace(30); // Keep headings together with the start of what follows
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(14);
+    doc.setTextColor(...ACCENT);
+    doc.text(text, MARGIN, y + 5);
+    doc.setDrawColor(...ACCENT);
+    doc.line(MARGIN, y + 7, PAGE_WIDTH - MARGIN, y + 7);
+    doc.setTextColor(0);
+    doc.setFont('helvetica', 'normal');
+    y += 12;
+  };
+
+  const paragraph = (text: string, size = 10) => {
+    doc.setFontSize(size);
+    const lines: string[] = doc.splitTextToSize(text, CONTENT_WIDTH);
+    ensureSpace(lines.length * ROW_LINE_HEIGHT + 2);
+    doc.text(lines, MARGIN, y + 3);
+    y += lines.length * ROW_LINE_HEIGHT + 2;
+  };
+
+  // Draws a table with wrapped cells; the header row is repeated at the top of every page it spans.
+  const table = (columns: ReportColumn[], rows: string[][], footer?: string[]) => {
+    const scale = CONTENT_WIDTH / columns.reduce((sum, col) => sum + col.width, 0);
+    const widths = columns.map(col => col.width * scale);
+    const drawRow = (cells: string[], style: 'header' | 'body' | 'footer', shaded: boolean) => {
+      doc.setFontSize(style === 'header' ? 8.5 : 8);
+      doc.setFont('helvetica', style === 'body' ? 'normal' : 'bold');
+      const wrapped = cells.map((cell, i) => doc.splitTextToSize(cell || '', widths[i] - 3) as string[]);
+      const height = Math.max(...wrapped.map(lines => lines.length)) * ROW_LINE_HEIGHT + 2;
+      if (style !== 'header' && y + height > CONTENT_BOTTOM) { newPage(); drawRow(columns.map(col => col.header), 'header', false); doc.setFontSize(8); doc.setFont('helvetica', style === 'body' ? 'normal' : 'bold'); }
+      if (style === 'header') { doc.setFillColor(...ACCENT); doc.setTextColor(255); }
+      else if (shaded || style === 'footer') doc.setFillColor(241, 245, 249); // slate-100
+      if (style === 'header' || shaded || style === 'footer') doc.rect(MARGIN, y, CONTENT_WIDTH, height, 'F');
+      let x = MARGIN;
+      wrapped.forEach((lines, i) => {
+        const right = columns[i].align === 'right';
+        doc.text(lines, right ? x + widths[i] - 1.5 : x + 1.5, y + ROW_LINE_HEIGHT, { align: right ? 'right' : 'left' });
+        x += widths[i];
+      });
+      doc.setTextColor(0);
+      y += height;
+    };
+    ensureSpace(3 * ROW_LINE_HEIGHT + 4);
+    drawRow(columns.map(col => col.header), 'header', false);
+    rows.forEach((row, i) => drawRow(row, 'body', i % 2 === 1));
+    if (footer) drawRow(footer, 'footer', false);
+    doc.setFont('helvetica', 'normal');
+    y += 6;
+  };
+
+  // --- Cover ---
+  // The trip's own dates win over the span of its expenses
+  const firstDate = trip.startDate || sortedExpenses[0]?.date;
+  const lastDate = trip.endDate || sortedExpenses.reduce((last, exp) => (exp.endDate || exp.date) > last ? (exp.endDate || exp.date) : last, firstDate || '');
+  doc.setFillColor(...ACCENT);
+  doc.rect(0, 0, PAGE_WIDTH, 90, 'F');
+  doc.setTextColor(255);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(28);
+  doc.text(doc.splitTextToSize(trip.name, CONTENT_WIDTH), MARGIN, 45);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(14);
+  doc.text('Informe de gastos del viaje', MARGIN, 75);
+  doc.setTextColor(0);
+  y = 110;
+  const coverLine = (label: string, value: string) => {
+    doc.setFont('helvetica', 'bold'); doc.setFontSize(11);
+    doc.text(label, MARGIN, y);
+    doc.setFont('helvetica', 'normal');
+    const lines: string[] = doc.splitTextToSize(value, CONTENT_WIDTH - 45);
+    doc.text(lines, MARGIN + 45, y);
+    y += lines.length * 6 + 3;
+  };
+  const longDate = (date: string) => formatReportDate(date, { day: 'numeric', month: 'long', year: 'numeric' });
+  if (firstDate) coverLine('Fechas', firstDate === lastDate ? longDate(firstDate) : `${longDate(firstDate)} - ${longDate(lastDate)}`);
+  if (trip.destinations && trip.destinations.length > 0) coverLine('Destinos', trip.destinations.join(', '));
+  coverLine('Participantes', trip.participants.map(p => p.name).join(', '));
+  coverLine('Código del viaje', trip.tripCode);
+  coverLine('Moneda base', baseCurrency);
+  coverLine('Gasto total', formatBase(totalCost));
+  coverLine('Número de gastos', String(expenses.length));
+  coverLine('Generado el', new Date().toLocaleString('es-ES', { day: 'numeric', month: 'long', year: 'numeric', hour: '2-digit', minute: '2-digit' }));
+
+  // --- Summary ---
+  newPage();
+  heading('Resumen por Categoría');
+  const byCategory: Record<string, number> = {};
+  baseExpenses.forEach(exp => { byCategory[exp.category] = (byCategory[exp.category] || 0) + exp.amount; });
+  table(
+    [{ header: 'Categoría', width: 90 }, { header: 'Gastos', width: 30, align: 'right' }, { header: `Total (${baseCurrency})`, width: 40, align: 'right' }, { header: '% del total', width: 30, align: 'right' }],
+    Object.entries(byCategory).sort(([, a], [, b]) => b - a).map(([id, amount]) => [
+      getCategoryName(trip, id), String(baseExpenses.filter(exp => exp.category === id).length), formatBase(amount), totalCost > 0 ? `${Math.round(amount / totalCost * 100)}%` : '-',
+    ]),
+    ['Total', String(expenses.length), formatBase(totalCost), totalCost > 0 ? '100%' : '-']
+  );
+
+  const accountTotals = getPaymentAccountTotals(sortedExpenses, trip);
+  if (accountTotals.length > 0) {
+    heading('Cuentas de Pago');
+    table(
+      [{ header: 'Cuenta', width: 70 }, { header: 'Titular', width: 40 }, { header: 'Gastos', width: 20, align: 'right' }, { header: 'Total', width: 35, align: 'right' }, { header: 'Comisiones est.', width: 35, align: 'right' }],
+      accountTotals.map(({ account, count, total, fees }) => [account.name, account.owner ? nameOf(account.owner) : 'Común', String(count), formatBase(total), fees > 0 ? formatBase(fees) : '-'])
+    );
+  }
+
+  const tagTotals = getTotalsByTag(baseExpenses, exp => exp.amount);
+  if (tagTotals.length > 0) {
+    heading('Etiquetas');
+    table(
+      [{ header: 'Etiqueta', width: 110 }, { header: 'Gastos', width: 30, align: 'right' }, { header: 'Total', width: 50, align: 'right' }],
+      tagTotals.map(({ tag, count, total }) => [tag, String(count), formatBase(total)])
+    );
+  }
+
+  if (hasAnyBudget(trip.budget)) {
+    heading('Presupuesto vs Real');
+    const budgetRow = (label: string, spent: number, budget: number) => {
+      const progress = getBudgetProgress(spent, budget);
+      return [label, formatBase(spent), formatBase(budget), `${Math.round(progress.ratio * 100)}%`, progress.isOver ? 'Superado' : 'Dentro'];
+    };
+    const rows: string[][] = [];
+    if (trip.budget!.total) rows.push(budgetRow('Total', totalCost, trip.budget!.total));
+    getTripCategories(trip).forEach(cat => { const catBudget = trip.budget!.byCategory?.[cat.id]; if (catBudget) rows.push(budgetRow(cat.name, byCategory[cat.id] || 0, catBudget)); });
+    table([{ header: 'Concepto', width: 60 }, { header: 'Gastado', width: 35, align: 'right' }, { header: 'Presupuesto', width: 35, align: 'right' }, { header: '%', width: 20, align: 'right' }, { header: 'Estado', width: 30 }], rows);
+    if (trip.budget!.daily) {
+      const daysOver = getDaysOverBudget(baseExpenses, trip.budget!.daily, baseCurrency);
+      paragraph(`Presupuesto diario: ${formatBase(trip.budget!.daily)}. ${daysOver.length === 0 ? 'Ningún día superado.' : `Días superados: ${daysOver.map(day => `${formatReportDate(day.date, { day: 'numeric', month: 'short' })} (${formatBase(day.spent)})`).join(', ')}.`}`);
+      y += 4;
+    }
+  }
+
+  // --- Expenses ---
+  newPage();
+  heading('Listado de Gastos');
+  table(
+    [{ header: 'Fecha', width: 22 }, { header: 'Descripción', width: 52 }, { header: 'Categoría', width: 28 }, { header: 'Pagado por', width: 26 }, { header: 'Cuenta', width: 24 }, { header: 'Importe', width: 24, align: 'right' }, { header: baseCurrency, width: 24, align: 'right' }],
+    sortedExpenses.map((exp, i) => [
+      exp.endDate ? `${formatReportDate(exp.date, { day: 'numeric', month: 'short' })} - ${formatReportDate(exp.endDate)}` : formatReportDate(exp.date),
+      [`${isCreditEntry(exp) ? `[${EXPENSE_KIND_LABELS[exp.kind!]}] ` : ''}${exp.description || '-'}`, exp.tags && exp.tags.length > 0 ? exp.tags.map(tag => `#${tag}`).join(' ') : ''].filter(Boolean).join('\n'),
+      getCategoryName(trip, exp.category),
+      getPayerName(trip, exp.paidBy),
+      exp.paymentMethod ? getPaymentAccountName(trip, exp.paymentMethod) : '-',
+      formatCurrency(getSignedAmount(exp), getExpenseCurrency(exp, trip)),
+      formatBase(baseExpenses[i].amount),
+    ]),
+    ['', 'Total', '', '', '', '', formatBase(totalCost)]
+  );
+
+  // --- Balances and settlement ---
+  heading('Balance por Participante');
+  const paid = getPaidByParticipant(trip, baseExpenses);
+  const consumed = getSharesByParticipant(baseExpenses, trip.participants);
+  const sent: Record<string, number> = {};
+  const received: Record<string, number> = {};
+  transfers.forEach(tr => { sent[tr.from] = (sent[tr.from] || 0) + tr.amount; received[tr.to] = (received[tr.to] || 0) + tr.amount; });
+  table(
+    [{ header: 'Participante', width: 50 }, { header: 'Pagado', width: 28, align: 'right' }, { header: 'Consumido', width: 28, align: 'right' }, { header: 'Pagos enviados', width: 28, align: 'right' }, { header: 'Pagos recibidos', width: 28, align: 'right' }, { header: 'Balance', width: 28, align: 'right' }],
+    trip.participants.map(({ id, name }) => {
+      const balance = (paid[id] || 0) - (consumed[id] || 0) + (sent[id] || 0) - (received[id] || 0);
+      return [name, formatBase(paid[id] || 0), formatBase(consumed[id] || 0), formatBase(sent[id] || 0), formatBase(received[id] || 0), formatBase(Math.abs(balance) < 0.005 ? 0 : balance)];
+    })
+  );
+  paragraph('Un balance positivo indica que al participante le deben dinero; uno negativo, que debe dinero al grupo.', 8);
+  const partialStays = trip.participants.filter(hasPresenceDates);
+  if (partialStays.length > 0) {
+    paragraph(`Estancias: ${partialStays.map(p => `${p.name}, ${describePresence(p, date => formatReportDate(date, { day: 'numeric', month: 'short' })).toLowerCase()}`).join('; ')}. Los gastos comunes de cada día solo se reparten entre quienes estaban.`, 8);
+  }
+  y += 4;
+
+  if (trip.kitty) {
+    const kitty = getKittySummary(trip, baseExpenses);
+    heading(getKittyName(trip));
+    paragraph(`Aportado: ${formatBase(kitty.contributed)} · Pagado desde el bote: ${formatBase(kitty.spent)} · Saldo: ${formatBase(kitty.balance)}`);
+    table(
+      [{ header: 'Participante', width: 60 }, { header: 'Aportado', width: 40, align: 'right' }, { header: 'Parte de lo pagado', width: 40, align: 'right' }, { header: 'A devolver', width: 40, align: 'right' }],
+      Object.keys(kitty.contributionsByParticipant).map(id => [nameOf(id), formatBase(kitty.contributionsByParticipant[id]), formatBase(kitty.chargedByParticipant[id] || 0), formatBase(kitty.returns[id] || 0)])
+    );
+    paragraph('Lo pagado desde el bote se reparte entre quienes aportaron en proporción a lo que puso cada uno; el sobrante se les devuelve en esa misma proporción.', 8);
+    y += 4;
+  }
+
+  heading('Instrucciones de Liquidación');
+  if (settlements.length === 0) paragraph('No hay pagos pendientes: las cuentas están saldadas.');
+  else table(
+    [{ header: 'Paga', width: 60 }, { header: 'Recibe', width: 60 }, { header: 'Cantidad', width: 40, align: 'right' }],
+    settlements.map(payment => [nameOf(payment.from), nameOf(payment.to), formatBase(payment.amount)]),
+    ['', 'Total pendiente', formatBase(settlements.reduce((sum, payment) => sum + payment.amount, 0))]
+  );
+
+  if (transfers.length > 0) {
+    heading('Pagos Realizados');
+    table(
+      [{ header: 'Fecha', width: 30 }, { header: 'Paga', width: 35 }, { header: 'Recibe', width: 35 }, { header: 'Método', width: 35 }, { header: 'Nota', width: 45 }, { header: 'Cantidad', width: 30, align: 'right' }],
+      [...transfers].sort((a, b) => a.date.localeCompare(b.date)).map(tr => [formatReportDate(tr.date), nameOf(tr.from), nameOf(tr.to), tr.method ? TRANSFER_METHOD_LABELS[tr.method] : '-', tr.note || '', formatBase(tr.amount)])
+    );
+  }
+
+  // --- Charts, two per page at a 2:1 ratio across the content width ---
+  if (chartImages.length > 0) {
+    newPage();
+    heading('Gráficos');
+    const height = CONTENT_WIDTH / 2;
+    chartImages.forEach(image => {
+      ensureSpace(height + 6);
+      doc.addImage(image, 'PNG', MARGIN, y, CONTENT_WIDTH, height);
+      y += height + 6;
+    });
+  }
+
+  // --- Receipts appendix: thumbnails in a two-column grid, each with its expense underneath ---
+  const withReceipts = sortedExpenses.filter(exp => exp.proofImage && getImageFormat(exp.proofImage));
+  if (withReceipts.length > 0) {
+    newPage();
+    heading('Anexo: Comprobantes');
+    const cellWidth = (CONTENT_WIDTH - 8) / 2;
+    const imageHeight = 70;
+    withReceipts.forEach((exp, i) => {
+      const column = i % 2;
+      if (column === 0) ensureSpace(imageHeight + 14);
+      const x = MARGIN + column * (cellWidth + 8);
+      try {
+        const format = getImageFormat(exp.proofImage!);
+        if (!format) throw new Error('Unsupported receipt image format');
+        const { width, height } = doc.getImageProperties(exp.proofImage!);
+        const ratio = Math.min(cellWidth / width, imageHeight / height);
+        doc.addImage(exp.proofImage!, format, x + (cellWidth - width * ratio) / 2, y, width * ratio, height * ratio);
+      } catch {
+        doc.setFontSize(8);
+        doc.text('Imagen no disponible', x, y + imageHeight / 2);
+      }
+      doc.setFontSize(8);
+      doc.text(doc.splitTextToSize(`${formatReportDate(exp.date)} · ${exp.description || getCategoryName(trip, exp.category)} · ${formatCurrency(exp.amount, getExpenseCurrency(exp, trip))} (${getPayerName(trip, exp.paidBy)})`, cellWidth), x, y + imageHeight + 4);
+      if (column === 1 || i === withReceipts.length - 1) y += imageHeight + 14;
+    });
+  }
+
+  // --- Running header and footer on every page but the cover ---
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 2; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFontSize(8);
+    doc.setTextColor(100);
+    doc.text(trip.name, MARGIN, 12);
+    doc.text('Informe de gastos', PAGE_WIDTH - MARGIN, 12, { align: 'right' });
+    doc.setDrawColor(200);
+    doc.line(MARGIN, 15, PAGE_WIDTH - MARGIN, 15);
+    doc.line(MARGIN, 287, PAGE_WIDTH - MARGIN, 287);
+    doc.text(`Generado el ${new Date().toLocaleDateString('es-ES')}`, MARGIN, 292);
+    doc.text(`Página ${page} de ${pageCount}`, PAGE_WIDTH - MARGIN, 292, { align: 'right' });
+    doc.setTextColor(0);
+  }
+};
@@ -0,0 +1,99 @@
+import { InfoItem, InfoItemType, ItineraryItem, Participant, Trip, TripTemplate } from '../types';
+import { addDays, getDaysBetween } from './proration';
+import { createParticipant } from './participants';
+
+export interface TripFromTemplate {
+  trip: Trip;
+  infoItems: InfoItem[];
+  itineraryItems: ItineraryItem[];
+}
+
+export interface TripFromTemplateOptions extends Pick<Trip, 'startDate' | 'endDate' | 'destinations'> {
+  name: string;
+  participantNames: string[]; // Template participants keep their settings when a name still matches
+  tripCode: string;
+  username: string; // Who creates the trip, recorded as the author of the copied items
+}
+
+// The day every other date is measured from: the trip's start, or else its earliest planned item.
+const getAnchorDate = (trip: Trip, infoItems: InfoItem[], itineraryItems: ItineraryItem[]): string | undefined =>
+  trip.startDate || [...itineraryItems.map(item => item.date), ...infoItems.flatMap(item => item.date ? [item.date] : [])].sort()[0];
+
+// `infoItems` and `itineraryItems` must belong to `trip`. Attached files (tickets, boarding passes, audio) belong to
+// the original trip and are left out, as are stay dates, which only make sense for the original dates.
+export const createTripTemplate = (trip: Trip, infoItems: InfoItem[], itineraryItems: ItineraryItem[], name: string): TripTemplate => {
+  const anchor = getAnchorDate(trip, infoItems, itineraryItems);
+  const toOffset = (date: string) => anchor ? getDaysBetween(anchor, date) : 0;
+  return {
+    id: `template-${Date.now()}`,
+    name: name.trim(),
+    createdAt: new Date().toISOString(),
+    trip: {
+      participants: trip.participants.map(({ id, name }) => ({ id, name })),
+      baseCurrency: trip.baseCurrency,
+      exchangeRates: trip.exchangeRates,
+      budget: trip.budget,
+      categories: trip.categories,
+      paymentAccounts: trip.paymentAccounts,
+      settlementAvoidPairs: trip.settlementAvoidPairs,
+      destinations: trip.destinations,
+    },
+    durationDays: trip.startDate && trip.endDate ? getDaysBetween(trip.startDate, trip.endDate) : undefined,
+    infoItems: infoItems.filter(item => item.type !== InfoItemType.NOTE_AUDIO).map(item => ({
+      title: item.title, type: item.type, details: item.details, time: item.time, reminderEnabled: item.reminderEnabled,
+      dayOffset: item.date ? toOffset(item.date) : undefined,
+    })),
+    itineraryItems: itineraryItems.map(item => ({
+      title: item.title, time: item.time, category: item.category, notes: item.notes, location: item.location,
+      dayOffset: toOffset(item.date),
+    })),
+  };
+};
+
+// Each template participant is matched to the first unused new participant with the same name; references to
+// anyone left unmatched (avoid pairs, account owners) are dropped.
+const matchParticipants = (templateParticipants: Participant[], participants: Participant[]): Record<string, string> => {
+  const used = new Set<string>();
+  const ids: Record<string, string> = {};
+  templateParticipants.forEach(tp => {
+    const match = participants.find(p => !used.has(p.id) && p.name === tp.name);
+    if (match) { used.add(match.id); ids[tp.id] = match.id; }
+  });
+  return ids;
+};
+
+// Without a start date, planned items are placed from today. Without an end date, the trip lasts as long as the original.
+export const createTripFromTemplate = (template: TripTemplate, { name, participantNames, startDate, endDate, destinations, tripCode, username }: TripFromTemplateOptions): TripFromTemplate => {
+  const now = Date.now();
+  const tripId = `trip-${now}`;
+  const createdAt = new Date().toISOString();
+  const anchor = startDate || createdAt.split('T')[0];
+  const participants = participantNames.map(createParticipant);
+  const ids = matchParticipants(template.trip.participants, participants);
+  const trip: Trip = {
+    ...template.trip,
+    id: tripId,
+    name: name.trim(),
+    participants,
+    tripCode,
+    settlementAvoidPairs: template.trip.settlementAvoidPairs
+      ?.filter(([a, b]) => ids[a] && ids[b])
+      .map(([a, b]) => [ids[a], ids[b]] as [string, string]),
+    paymentAccounts: template.trip.paymentAccounts?.map(acc => ({ ...acc, owner: acc.owner ? ids[acc.owner] : undefined })),
+    destinations,
+    startDate,
+    endDate: endDate || (startDate && template.durationDays !== undefined ? addDays(startDate, template.durationDays) : undefined),
+  };
+  return {
+    trip,
+    infoItems: template.infoItems.map(({ dayOffset, ...item }, i) => ({
+      ...item, id: `info-${now}-${i}`, tripId, date: dayOffset !== undefined ? addDays(anchor, dayOffset) : undefined,
+      isCompleted: false, addedBy: username, createdAt,
+    })),
+    itineraryItems: template.itineraryItems.map(({ dayOffset, ...item }, i) => ({
+      ...item, id: `itinerary-${now}-${i}`, tripId, date: addDays(anchor, dayOffset), isCompleted: false, addedBy: username, createdAt,
+    })),
+  };
+};
+
+export const validateTemplateName = (name: string): string | null => name.trim() ? null : "El nombre de la plantilla es obligatorio.";
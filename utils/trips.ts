@@ -0,0 +1,48 @@
+import { Expense, Trip, TripStatus } from '../types';
+import { TRIP_STATUS_LABELS } from '../constants';
+import { toBaseCurrencyExpense } from './currency';
+
+export interface TripStatusGroup {
+  status: TripStatus;
+  trips: Trip[];
+}
+
+// A status chosen by hand wins; otherwise it follows the trip's dates, and trips without dates are still being planned.
+export const getTripStatus = (trip: Trip, today: string = new Date().toISOString().split('T')[0]): TripStatus => {
+  if (trip.status) return trip.status;
+  if (trip.endDate && today > trip.endDate) return 'finished';
+  if (trip.startDate && today >= trip.startDate) return 'in_progress';
+  return 'planning';
+};
+
+export const isTripArchived = (trip: Trip): boolean => trip.status === 'archived';
+
+// Groups in the order of TRIP_STATUS_LABELS, soonest trips first; empty groups are left out.
+export const groupTripsByStatus = (trips: Trip[], today?: string): TripStatusGroup[] =>
+  (Object.keys(TRIP_STATUS_LABELS) as TripStatus[])
+    .map(status => ({
+      status,
+      trips: trips
+        .filter(trip => getTripStatus(trip, today) === status)
+        .sort((a, b) => (a.startDate || '9999').localeCompare(b.startDate || '9999') || a.name.localeCompare(b.name, 'es')),
+    }))
+    .filter(group => group.trips.length > 0);
+
+// Total spent in the trip, in its base currency and net of refunds.
+export const getTripTotal = (trip: Trip, expenses: Expense[]): number =>
+  expenses.filter(exp => exp.tripId === trip.id).reduce((sum, exp) => sum + toBaseCurrencyExpense(exp, trip).amount, 0);
+
+export const parseDestinations = (value: string): string[] => value.split(',').map(d => d.trim()).filter(Boolean);
+
+export const describeTripDates = (trip: Trip, formatDay: (date: string) => string): string => {
+  if (trip.startDate && trip.endDate) return `Del ${formatDay(trip.startDate)} al ${formatDay(trip.endDate)}`;
+  if (trip.startDate) return `Desde el ${formatDay(trip.startDate)}`;
+  if (trip.endDate) return `Hasta el ${formatDay(trip.endDate)}`;
+  return '';
+};
+
+// Returns an error message if the dates can't be saved.
+export const validateTripDates = (startDate: string, endDate: string): string | null => {
+  if (startDate && endDate && endDate < startDate) return "La fecha de vuelta no puede ser anterior a la de ida.";
+  return null;
+};